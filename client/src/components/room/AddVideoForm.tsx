@@ -1,13 +1,36 @@
 import { useState } from 'react';
-import { isValidVideoUrl } from '../../lib/utils';
+import type { ClipRange, RoomSettings } from '../../hooks/useRoom';
+import { parseTimestamp, formatTime } from '../../lib/utils';
+import { findProvider, providerNames } from '../../lib/media';
+import { useMediaProviders } from '../../hooks/useMediaProviders';
 
 interface AddVideoFormProps {
-  onAdd: (url: string) => void;
+  settings: RoomSettings;
+  onAdd: (url: string, clip?: ClipRange) => void;
+  onImport: () => void;
 }
 
-export default function AddVideoForm({ onAdd }: AddVideoFormProps) {
+// The room's submission rules in a few words, or [] when there are none
+function describeRules(settings: RoomSettings): string[] {
+  const rules: string[] = [];
+  if (settings.maxQueuedPerUser > 0) {
+    rules.push(`${settings.maxQueuedPerUser} track${settings.maxQueuedPerUser === 1 ? '' : 's'} per person`);
+  }
+  if (settings.maxTrackSeconds > 0) rules.push(`up to ${formatTime(settings.maxTrackSeconds)} long`);
+  if (settings.submitCooldownSeconds > 0) rules.push(`${settings.submitCooldownSeconds}s between adds`);
+  if (settings.repeatWindowMinutes > 0) rules.push(`no replays within ${settings.repeatWindowMinutes} min`);
+  if (settings.guestsCannotQueue) rules.push('no guests');
+  return rules;
+}
+
+export default function AddVideoForm({ settings, onAdd, onImport }: AddVideoFormProps) {
   const [url, setUrl] = useState('');
+  const [showClip, setShowClip] = useState(false);
+  const [startInput, setStartInput] = useState('');
+  const [endInput, setEndInput] = useState('');
   const [validationError, setValidationError] = useState('');
+  const rules = describeRules(settings);
+  const providers = useMediaProviders();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -15,37 +38,106 @@ export default function AddVideoForm({ onAdd }: AddVideoFormProps) {
 
     if (!trimmed) return;
 
-    if (!isValidVideoUrl(trimmed)) {
-      setValidationError('Please enter a valid YouTube or SoundCloud URL');
+    if (providers && !findProvider(providers, trimmed)) {
+      setValidationError(`That link isn't supported. Try ${providerNames(providers)}.`);
       return;
     }
 
+    // Blank fields fall back to any t=/end= offsets in the URL
+    const clip: ClipRange = {};
+    if (showClip && startInput.trim()) {
+      const startAt = parseTimestamp(startInput);
+      if (startAt === null) {
+        setValidationError('Start time should look like 1:30 or 90');
+        return;
+      }
+      clip.startAt = startAt;
+    }
+    if (showClip && endInput.trim()) {
+      const endAt = parseTimestamp(endInput);
+      if (endAt === null) {
+        setValidationError('End time should look like 4:00 or 240');
+        return;
+      }
+      if (endAt <= (clip.startAt ?? 0)) {
+        setValidationError('End time must be after the start time');
+        return;
+      }
+      clip.endAt = endAt;
+    }
+
     setValidationError('');
-    onAdd(trimmed);
+    onAdd(trimmed, clip);
     setUrl('');
+    setStartInput('');
+    setEndInput('');
   };
 
   return (
     <div className="card">
-      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">Add Video</h3>
-      <form onSubmit={handleSubmit} className="flex gap-2">
-        <input
-          type="url"
-          value={url}
-          onChange={(e) => {
-            setUrl(e.target.value);
-            if (validationError) setValidationError('');
-          }}
-          className="input-field flex-1 text-sm py-1.5"
-          placeholder="YouTube or SoundCloud URL..."
-        />
-        <button type="submit" className="btn-primary py-1.5 px-3 text-sm whitespace-nowrap">
-          + Add
-        </button>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Add Video</h3>
+        <span className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => setShowClip(!showClip)}
+            className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+            title="Only play part of the track"
+          >
+            {showClip ? 'Full track' : 'Clip…'}
+          </button>
+          <button
+            type="button"
+            onClick={onImport}
+            className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+            title="Add tracks from a playlist file"
+          >
+            Import…
+          </button>
+        </span>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => {
+              setUrl(e.target.value);
+              if (validationError) setValidationError('');
+            }}
+            className="input-field flex-1 text-sm py-1.5"
+            placeholder="Paste a track URL..."
+            title={providers ? `Supported: ${providerNames(providers)}` : undefined}
+          />
+          <button type="submit" className="btn-primary py-1.5 px-3 text-sm whitespace-nowrap">
+            + Add
+          </button>
+        </div>
+        {showClip && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={startInput}
+              onChange={(e) => setStartInput(e.target.value)}
+              className="input-field flex-1 text-sm py-1.5"
+              placeholder="Start (e.g. 1:30)"
+            />
+            <input
+              type="text"
+              value={endInput}
+              onChange={(e) => setEndInput(e.target.value)}
+              className="input-field flex-1 text-sm py-1.5"
+              placeholder="End (e.g. 4:00)"
+            />
+          </div>
+        )}
       </form>
       {validationError && (
         <p className="text-red-400 text-xs mt-1.5">{validationError}</p>
       )}
+      {rules.length > 0 && (
+        <p className="text-gray-500 text-xs mt-1.5">Room rules: {rules.join(' · ')}</p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,136 @@
+import type { CurrentVideo, VideoItem, WaitlistEntry } from '../../hooks/useRoom';
+import Button from '../ui/Button';
+
+interface DjBoothProps {
+  currentVideo: CurrentVideo | null;
+  waitlist: WaitlistEntry[];
+  myQueue: VideoItem[];
+  userId: string;
+  canModerate: boolean;
+  onJoin: () => void;
+  onLeave: () => void;
+  onMoveDj: (userId: string, position: number) => void;
+  onRemoveTrack: (itemId: string) => void;
+  onMoveTrack: (itemId: string, position: number) => void;
+}
+
+export default function DjBooth({
+  currentVideo,
+  waitlist,
+  myQueue,
+  userId,
+  canModerate,
+  onJoin,
+  onLeave,
+  onMoveDj,
+  onRemoveTrack,
+  onMoveTrack,
+}: DjBoothProps) {
+  const inWaitlist = waitlist.some((entry) => entry.userId === userId);
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">DJ Booth</h3>
+        {inWaitlist ? (
+          <Button variant="ghost" size="sm" onClick={onLeave}>
+            Leave line
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            onClick={onJoin}
+            disabled={myQueue.length === 0}
+            title={myQueue.length === 0 ? 'Add a track to your queue first' : undefined}
+          >
+            Join line
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mb-2">
+        {currentVideo ? (
+          <>
+            On the decks: <span className="text-gray-300">{currentVideo.addedBy.username}</span>
+          </>
+        ) : (
+          'Nobody is playing right now'
+        )}
+      </p>
+
+      {/* Rotation: the first DJ plays next, then moves to the back */}
+      <ol className="space-y-1 mb-4">
+        {waitlist.length === 0 && (
+          <li className="text-gray-600 text-sm text-center py-2">No DJs waiting</li>
+        )}
+        {waitlist.map((entry, index) => (
+          <li
+            key={entry.userId}
+            className={`flex items-center justify-between gap-2 text-sm rounded px-2 py-1 ${
+              entry.userId === userId ? 'bg-purple-500/10 text-purple-300' : 'text-gray-300'
+            }`}
+          >
+            <span className="truncate">
+              <span className="text-gray-500 mr-2">{index + 1}.</span>
+              {entry.username}
+            </span>
+            {canModerate && (
+              <span className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => onMoveDj(entry.userId, index - 1)}
+                  disabled={index === 0}
+                  className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => onMoveDj(entry.userId, index + 1)}
+                  disabled={index === waitlist.length - 1}
+                  className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  title="Move down"
+                >
+                  ▼
+                </button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+        Your queue ({myQueue.length})
+      </h4>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {myQueue.length === 0 && (
+          <p className="text-gray-600 text-xs py-1">Tracks you add go here and play on your turn.</p>
+        )}
+        {myQueue.map((video, index) => (
+          <div
+            key={video._id}
+            className="flex items-center justify-between gap-2 bg-gray-800/50 rounded px-2 py-1 group"
+          >
+            <span className="text-sm truncate">{video.title}</span>
+            <span className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100">
+              <button
+                onClick={() => onMoveTrack(video._id, index - 1)}
+                disabled={index === 0}
+                className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                title="Play earlier"
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => onRemoveTrack(video._id)}
+                className="text-xs text-red-400 hover:text-red-300"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
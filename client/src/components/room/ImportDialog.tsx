@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import type { ImportFormat, ImportResult } from '../../hooks/useRoom';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  result: ImportResult | null;
+  onImport: (content: string, format?: ImportFormat) => void;
+  onClose: () => void;
+}
+
+// Trust the file extension; pasted text is detected by the server
+function formatFromName(name: string): ImportFormat | undefined {
+  const ext = name.toLowerCase().split('.').pop();
+  if (ext === 'm3u' || ext === 'm3u8') return 'm3u';
+  if (ext === 'json') return 'json';
+  if (ext === 'txt') return 'text';
+  return undefined;
+}
+
+export default function ImportDialog({ isOpen, result, onImport, onClose }: ImportDialogProps) {
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<ImportFormat | undefined>();
+  const [fileName, setFileName] = useState('');
+  const [pending, setPending] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [readError, setReadError] = useState('');
+
+  useEffect(() => {
+    if (result) setPending(false);
+  }, [result]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setContent(await file.text());
+      setFormat(formatFromName(file.name));
+      setFileName(file.name);
+      setReadError('');
+    } catch {
+      setReadError('Could not read that file');
+    }
+  };
+
+  const handleImport = () => {
+    if (!content.trim()) return;
+    setPending(true);
+    setSubmitted(true);
+    onImport(content, format);
+  };
+
+  const handleClose = () => {
+    setContent('');
+    setFormat(undefined);
+    setFileName('');
+    setPending(false);
+    setSubmitted(false);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Tracks">
+      <div className="space-y-3">
+        <p className="text-xs text-gray-400">
+          Upload an M3U/M3U8 playlist, a text file with one URL per line, or a JSON export — or paste one
+          below.
+        </p>
+        <input
+          type="file"
+          accept=".m3u,.m3u8,.txt,.json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-gray-400 file:mr-3 file:py-1 file:px-3 file:rounded file:border-0 file:bg-gray-700 file:text-gray-200"
+        />
+        <textarea
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            setFormat(undefined);
+            setFileName('');
+          }}
+          rows={6}
+          className="input-field w-full text-xs font-mono"
+          placeholder={'https://www.youtube.com/watch?v=...\nhttps://soundcloud.com/...'}
+        />
+        {fileName && <p className="text-xs text-gray-500">Loaded {fileName}</p>}
+        {readError && <p className="text-red-400 text-xs">{readError}</p>}
+
+        {/* Only this dialog's own import, not one left over from last time */}
+        {submitted && result && !pending && (
+          <div className="text-xs space-y-1">
+            {result.error ? (
+              <p className="text-red-400">{result.error}</p>
+            ) : (
+              <p className="text-green-400">
+                Added {result.added} track{result.added === 1 ? '' : 's'}
+              </p>
+            )}
+            {result.failures.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto space-y-0.5 text-gray-400">
+                {result.failures.map((failure, index) => (
+                  <li key={index} className="truncate" title={failure.input}>
+                    <span className="text-gray-500">Line {failure.line}:</span> {failure.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={handleClose}>
+            Close
+          </Button>
+          <Button size="sm" onClick={handleImport} disabled={pending || !content.trim()}>
+            {pending ? 'Importing…' : 'Import'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,28 +1,110 @@
-import type { CurrentVideo } from '../../hooks/useRoom';
+import type { CurrentVideo, ReactionType } from '../../hooks/useRoom';
+import { PLAYBACK_RATES, formatClipRange } from '../../lib/utils';
 import Button from '../ui/Button';
 
 interface NowPlayingProps {
   currentVideo: CurrentVideo | null;
+  userId: string;
   canModerate: boolean;
+  playbackRate: number;
   onSkip: () => void;
+  onRateChange: (playbackRate: number) => void;
+  onReact: (type: ReactionType) => void;
 }
 
-export default function NowPlaying({ currentVideo, canModerate, onSkip }: NowPlayingProps) {
+const REACTIONS: { type: ReactionType; icon: string; label: string; active: string }[] = [
+  { type: 'woot', icon: '👍', label: 'Woot', active: 'bg-green-500/20 text-green-400' },
+  { type: 'meh', icon: '👎', label: 'Meh', active: 'bg-red-500/20 text-red-400' },
+  { type: 'grab', icon: '♥', label: 'Grab — save to your list', active: 'bg-pink-500/20 text-pink-400' },
+];
+
+export default function NowPlaying({
+  currentVideo,
+  userId,
+  canModerate,
+  playbackRate,
+  onSkip,
+  onRateChange,
+  onReact,
+}: NowPlayingProps) {
   if (!currentVideo) return null;
 
+  const tallies: Record<ReactionType, string[]> = {
+    woot: currentVideo.woots || [],
+    meh: currentVideo.mehs || [],
+    grab: currentVideo.grabs || [],
+  };
+
+  const clip = formatClipRange(currentVideo.startAt, currentVideo.endAt ?? null);
+
   return (
     <div className="bg-gray-900/50 border border-gray-800 rounded-lg px-4 py-3 flex items-center justify-between">
+      {currentVideo.thumbnailUrl && (
+        <img
+          src={currentVideo.thumbnailUrl}
+          alt=""
+          className="w-20 h-[45px] rounded object-cover shrink-0 mr-3 bg-gray-900"
+        />
+      )}
       <div className="min-w-0 flex-1">
         <p className="text-xs text-purple-400 font-semibold uppercase tracking-wider mb-0.5">
           Now Playing
+          {currentVideo.autoPicked && (
+            <span
+              className="ml-2 normal-case tracking-normal font-normal text-gray-400 bg-gray-800 rounded px-1.5 py-0.5"
+              title="Picked by autoplay because the queue is empty. The next track anyone adds plays instead."
+            >
+              Auto-picked
+            </span>
+          )}
         </p>
-        <p className="text-sm font-medium truncate">{currentVideo.title}</p>
-        <p className="text-xs text-gray-500">Added by {currentVideo.addedBy.username}</p>
+        <p className="text-sm font-medium truncate">
+          {currentVideo.title}
+          {currentVideo.author && <span className="font-normal text-gray-400"> · {currentVideo.author}</span>}
+        </p>
+        <p className="text-xs text-gray-500">
+          {currentVideo.autoPicked ? 'Autoplay' : `Added by ${currentVideo.addedBy.username}`}
+          {clip && <span className="text-purple-400"> · ✂ {clip}</span>}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 ml-3 shrink-0">
+        {REACTIONS.map(({ type, icon, label, active }) => (
+          <button
+            key={type}
+            onClick={() => onReact(type)}
+            disabled={type === 'grab' && tallies.grab.includes(userId)}
+            title={label}
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs transition-colors disabled:cursor-default ${
+              tallies[type].includes(userId) ? active : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800'
+            }`}
+          >
+            <span>{icon}</span>
+            <span>{tallies[type].length}</span>
+          </button>
+        ))}
       </div>
-      {canModerate && (
-        <Button variant="ghost" size="sm" onClick={onSkip} className="ml-3 shrink-0">
-          Skip ⏭
-        </Button>
+      {canModerate ? (
+        <div className="flex items-center gap-2 ml-3 shrink-0">
+          <select
+            value={playbackRate}
+            onChange={(e) => onRateChange(parseFloat(e.target.value))}
+            className="bg-gray-800 border border-gray-700 rounded-md text-xs text-gray-300 px-1.5 py-1"
+            title="Playback speed for everyone"
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}x
+              </option>
+            ))}
+          </select>
+          <Button variant="ghost" size="sm" onClick={onSkip}>
+            Skip ⏭
+          </Button>
+        </div>
+      ) : (
+        playbackRate !== 1 && (
+          <span className="ml-3 shrink-0 text-xs text-gray-400">{playbackRate}x</span>
+        )
       )}
     </div>
   );
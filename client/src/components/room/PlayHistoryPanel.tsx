@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from 'react';
+import api from '../../lib/api';
+import type { ClipRange } from '../../hooks/useRoom';
+import { formatClipRange, timeAgo } from '../../lib/utils';
+import Button from '../ui/Button';
+
+export interface PlayHistoryEntry {
+  _id: string;
+  url: string;
+  title: string;
+  duration: number;
+  startAt: number;
+  endAt: number | null;
+  addedBy: { _id: string; username: string };
+  playedAt: string;
+  endedAt: string | null;
+  skipped: boolean;
+  woots: number;
+  mehs: number;
+  grabs: number;
+  autoPicked: boolean;
+}
+
+interface HistoryPage {
+  items: PlayHistoryEntry[];
+  page: number;
+  hasMore: boolean;
+}
+
+interface PlayHistoryPanelProps {
+  slug: string;
+  // Changes whenever a new track starts, so the list picks it up
+  refreshKey: string | null;
+  onRequeue: (url: string, clip?: ClipRange) => void;
+}
+
+export default function PlayHistoryPanel({ slug, refreshKey, onRequeue }: PlayHistoryPanelProps) {
+  const [entries, setEntries] = useState<PlayHistoryEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(
+    async (pageNumber: number) => {
+      setLoading(true);
+      try {
+        const { data } = await api.get<HistoryPage>(`/rooms/${slug}/history`, {
+          params: { page: pageNumber },
+        });
+        setEntries((prev) => (pageNumber === 1 ? data.items : [...prev, ...data.items]));
+        setPage(data.page);
+        setHasMore(data.hasMore);
+        setError('');
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [slug]
+  );
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage, refreshKey]);
+
+  return (
+    <div className="card flex flex-col h-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">History</h3>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+        {!loading && !error && entries.length === 0 && (
+          <p className="text-gray-600 text-sm text-center py-8">Nothing has played here yet.</p>
+        )}
+        {entries.map((entry) => {
+          const clip = formatClipRange(entry.startAt, entry.endAt);
+          return (
+            <div key={entry._id} className="bg-gray-800/50 rounded-lg p-3 border border-gray-700/50 group">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{entry.title}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {entry.autoPicked ? 'Autoplay' : entry.addedBy.username} · {timeAgo(entry.playedAt)}
+                    {clip && <span className="text-purple-400"> · ✂ {clip}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    👍 {entry.woots} · 👎 {entry.mehs} · ♥ {entry.grabs}
+                    {entry.skipped && <span className="text-yellow-500"> · skipped</span>}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    onRequeue(entry.url, { startAt: entry.startAt || undefined, endAt: entry.endAt ?? undefined })
+                  }
+                  className="opacity-0 group-hover:opacity-100 shrink-0"
+                  title="Add to the queue again"
+                >
+                  + Queue
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        {hasMore && (
+          <button
+            onClick={() => loadPage(page + 1)}
+            disabled={loading}
+            className="w-full text-xs text-gray-400 hover:text-gray-200 py-2 disabled:opacity-50"
+          >
+            {loading ? 'Loading…' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from 'react';
+import api from '../../lib/api';
+import type { PlaylistQueueResult } from '../../hooks/useRoom';
+import { formatClipRange } from '../../lib/utils';
+import { findProvider, providerNames } from '../../lib/media';
+import { useMediaProviders } from '../../hooks/useMediaProviders';
+import Button from '../ui/Button';
+
+export interface PlaylistTrack {
+  _id: string;
+  url: string;
+  title: string;
+  duration: number;
+  startAt: number;
+  endAt: number | null;
+  addedAt: string;
+}
+
+export interface Playlist {
+  _id: string;
+  name: string;
+  tracks: PlaylistTrack[];
+  updatedAt: string;
+}
+
+interface PlaylistPanelProps {
+  isGuest: boolean;
+  // What's playing now, offered as a quick add
+  currentUrl: string | null;
+  result: PlaylistQueueResult | null;
+  onQueue: (playlistId: string, trackIds?: string[]) => void;
+}
+
+export default function PlaylistPanel({ isGuest, currentUrl, result, onQueue }: PlaylistPanelProps) {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [trackUrl, setTrackUrl] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const providers = useMediaProviders();
+
+  const open = playlists.find((playlist) => playlist._id === openId) || null;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await api.get<Playlist[]>('/playlists');
+      setPlaylists(data);
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load playlists');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isGuest) load();
+  }, [isGuest, load]);
+
+  // Run a request that returns the changed playlist and swap it into the list
+  const update = async (request: () => Promise<{ data: Playlist }>) => {
+    try {
+      const { data } = await request();
+      setPlaylists((prev) => prev.map((playlist) => (playlist._id === data._id ? data : playlist)));
+      setError('');
+      return true;
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Something went wrong');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      const { data } = await api.post<Playlist>('/playlists', { name: newName.trim() });
+      setPlaylists((prev) => [data, ...prev]);
+      setNewName('');
+      setOpenId(data._id);
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to create playlist');
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!open || renaming === null) return;
+    const ok = await update(() => api.patch(`/playlists/${open._id}`, { name: renaming }));
+    if (ok) setRenaming(null);
+  };
+
+  const handleDelete = async () => {
+    if (!open) return;
+    try {
+      await api.delete(`/playlists/${open._id}`);
+      setPlaylists((prev) => prev.filter((playlist) => playlist._id !== open._id));
+      setOpenId(null);
+      setConfirmDelete(false);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete playlist');
+    }
+  };
+
+  const addTrack = async (url: string) => {
+    if (!open) return;
+    if (providers && !findProvider(providers, url)) {
+      setError(`That link isn't supported. Try ${providerNames(providers)}.`);
+      return;
+    }
+    const ok = await update(() => api.post(`/playlists/${open._id}/tracks`, { url }));
+    if (ok) setTrackUrl('');
+  };
+
+  const moveTrack = (trackId: string, position: number) =>
+    update(() => api.patch(`/playlists/${open!._id}/tracks/${trackId}`, { position }));
+
+  const removeTrack = (trackId: string) => update(() => api.delete(`/playlists/${open!._id}/tracks/${trackId}`));
+
+  if (isGuest) {
+    return (
+      <div className="card flex flex-col h-full">
+        <p className="text-gray-600 text-sm text-center py-8">Sign up to save playlists.</p>
+      </div>
+    );
+  }
+
+  const showResult = result && open && result.playlistId === open._id;
+
+  return (
+    <div className="card flex flex-col h-full">
+      <div className="flex items-center justify-between mb-3 gap-2">
+        {open ? (
+          <>
+            <button
+              onClick={() => {
+                setOpenId(null);
+                setRenaming(null);
+                setConfirmDelete(false);
+              }}
+              className="text-xs text-gray-500 hover:text-gray-300"
+            >
+              ← Playlists
+            </button>
+            <Button size="sm" onClick={() => onQueue(open._id)} disabled={open.tracks.length === 0}>
+              Queue all
+            </Button>
+          </>
+        ) : (
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Playlists</h3>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+
+      {!open ? (
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={50}
+              className="input-field flex-1 text-sm py-1.5"
+              placeholder="New playlist name..."
+            />
+            <button type="submit" className="btn-primary py-1.5 px-3 text-sm whitespace-nowrap">
+              + New
+            </button>
+          </form>
+          {!loading && playlists.length === 0 && (
+            <p className="text-gray-600 text-sm text-center py-8">No playlists yet.</p>
+          )}
+          {playlists.map((playlist) => (
+            <button
+              key={playlist._id}
+              onClick={() => setOpenId(playlist._id)}
+              className="w-full text-left bg-gray-800/50 rounded-lg p-3 border border-gray-700/50 hover:border-gray-600"
+            >
+              <p className="text-sm font-medium truncate">{playlist.name}</p>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {playlist.tracks.length} track{playlist.tracks.length === 1 ? '' : 's'}
+              </p>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {renaming !== null ? (
+            <form onSubmit={handleRename} className="flex gap-2">
+              <input
+                type="text"
+                value={renaming}
+                onChange={(e) => setRenaming(e.target.value)}
+                maxLength={50}
+                className="input-field flex-1 text-sm py-1"
+                autoFocus
+              />
+              <Button size="sm" type="submit">
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" type="button" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+            </form>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">{open.name}</p>
+              <span className="flex gap-1 shrink-0">
+                <Button size="sm" variant="ghost" onClick={() => setRenaming(open.name)}>
+                  Rename
+                </Button>
+                {confirmDelete ? (
+                  <Button size="sm" variant="danger" onClick={handleDelete}>
+                    Really delete?
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(true)}>
+                    Delete
+                  </Button>
+                )}
+              </span>
+            </div>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (trackUrl.trim()) addTrack(trackUrl.trim());
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="url"
+              value={trackUrl}
+              onChange={(e) => setTrackUrl(e.target.value)}
+              className="input-field flex-1 text-sm py-1.5"
+              placeholder="Add a URL..."
+            />
+            <button type="submit" className="btn-primary py-1.5 px-3 text-sm">
+              +
+            </button>
+          </form>
+          {currentUrl && (
+            <button
+              onClick={() => addTrack(currentUrl)}
+              className="text-xs text-gray-500 hover:text-gray-300"
+            >
+              + Save what's playing
+            </button>
+          )}
+
+          {showResult && (
+            <p className={`text-xs ${result.error ? 'text-red-400' : 'text-green-400'}`}>
+              {result.error ||
+                `Queued ${result.added} track${result.added === 1 ? '' : 's'}` +
+                  (result.failures.length > 0 ? `, ${result.failures.length} skipped` : '')}
+            </p>
+          )}
+          {showResult && result.failures.length > 0 && (
+            <ul className="text-xs text-gray-400 space-y-0.5">
+              {result.failures.map((failure, index) => (
+                <li key={index} className="truncate" title={failure.input}>
+                  <span className="text-gray-500">#{failure.line}:</span> {failure.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {open.tracks.length === 0 && (
+            <p className="text-gray-600 text-sm text-center py-4">This playlist is empty.</p>
+          )}
+          {open.tracks.map((track, index) => {
+            const clip = formatClipRange(track.startAt, track.endAt);
+            return (
+              <div key={track._id} className="bg-gray-800/50 rounded-lg p-2 border border-gray-700/50 group">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm truncate">{track.title}</p>
+                    {clip && <p className="text-xs text-purple-400">✂ {clip}</p>}
+                  </div>
+                  <span className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100">
+                    <button
+                      onClick={() => onQueue(open._id, [track._id])}
+                      className="text-xs text-gray-400 hover:text-gray-200"
+                      title="Add to the room's queue"
+                    >
+                      + Queue
+                    </button>
+                    <button
+                      onClick={() => moveTrack(track._id, index - 1)}
+                      disabled={index === 0}
+                      className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => moveTrack(track._id, index + 1)}
+                      disabled={index === open.tracks.length - 1}
+                      className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ▼
+                    </button>
+                    <button
+                      onClick={() => removeTrack(track._id)}
+                      className="text-xs text-red-400 hover:text-red-300"
+                      title="Remove"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
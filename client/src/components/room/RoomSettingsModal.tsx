@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import api from '../../lib/api';
+import type { FallbackMode, RoomSettings } from '../../hooks/useRoom';
+import type { Playlist } from './PlaylistPanel';
+import Modal from '../ui/Modal';
+
+interface RoomSettingsModalProps {
+  isOpen: boolean;
+  settings: RoomSettings;
+  onClose: () => void;
+  onUpdate: (settings: Partial<RoomSettings>) => void;
+}
+
+interface ToggleProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+function Toggle({ label, description, checked, onChange }: ToggleProps) {
+  return (
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-1 accent-purple-500"
+      />
+      <span>
+        <span className="block text-sm font-medium">{label}</span>
+        <span className="block text-xs text-gray-400">{description}</span>
+      </span>
+    </label>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+// 0 means the limit is off
+function NumberField({ label, unit, value, max, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm">
+      <span>{label}</span>
+      <span className="flex items-center gap-1.5 text-xs text-gray-400">
+        <input
+          type="number"
+          min={0}
+          max={max}
+          value={value}
+          onChange={(e) => {
+            const next = Math.floor(Number(e.target.value));
+            if (Number.isFinite(next) && next >= 0 && next <= max) onChange(next);
+          }}
+          className="input-field w-20 text-sm py-1"
+        />
+        {unit}
+      </span>
+    </label>
+  );
+}
+
+const FALLBACK_OPTIONS: { mode: FallbackMode; label: string }[] = [
+  { mode: 'off', label: 'Off — go quiet' },
+  { mode: 'playlist', label: 'Play one of my playlists' },
+  { mode: 'history', label: "Shuffle the room's most-liked tracks" },
+  { mode: 'repeat', label: "Repeat the room's recent tracks" },
+];
+
+interface AutoplaySettingsProps {
+  isOpen: boolean;
+  settings: RoomSettings;
+  onUpdate: (settings: Partial<RoomSettings>) => void;
+}
+
+function AutoplaySettings({ isOpen, settings, onUpdate }: AutoplaySettingsProps) {
+  const [playlists, setPlaylists] = useState<Playlist[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const wantsPlaylists = isOpen && settings.fallbackMode === 'playlist';
+
+  useEffect(() => {
+    if (!wantsPlaylists) return;
+    api
+      .get<Playlist[]>('/playlists')
+      .then(({ data }) => {
+        setPlaylists(data);
+        setLoadError('');
+      })
+      .catch((err) => setLoadError(err.response?.data?.error || 'Failed to load playlists'));
+  }, [wantsPlaylists]);
+
+  return (
+    <div className="border-t border-gray-700 pt-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium">Autoplay</p>
+        <p className="text-xs text-gray-400">
+          What to play when the queue runs dry. Auto-picked tracks are labelled and stop as soon as someone adds one.
+        </p>
+      </div>
+      <select
+        value={settings.fallbackMode}
+        onChange={(e) => onUpdate({ fallbackMode: e.target.value as FallbackMode })}
+        className="input-field w-full text-sm py-1.5"
+      >
+        {FALLBACK_OPTIONS.map(({ mode, label }) => (
+          <option key={mode} value={mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {settings.fallbackMode === 'playlist' && (
+        <>
+          {loadError && <p className="text-red-400 text-xs">{loadError}</p>}
+          {playlists && playlists.length === 0 && (
+            <p className="text-xs text-gray-400">Create a playlist from the Playlists tab first.</p>
+          )}
+          {playlists && playlists.length > 0 && (
+            <select
+              value={settings.fallbackPlaylistId ?? ''}
+              onChange={(e) => onUpdate({ fallbackPlaylistId: e.target.value || null })}
+              className="input-field w-full text-sm py-1.5"
+            >
+              <option value="">Choose a playlist…</option>
+              {playlists.map((playlist) => (
+                <option key={playlist._id} value={playlist._id}>
+                  {playlist.name} ({playlist.tracks.length})
+                </option>
+              ))}
+            </select>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function RoomSettingsModal({ isOpen, settings, onClose, onUpdate }: RoomSettingsModalProps) {
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Room Settings">
+      <div className="space-y-4">
+        <Toggle
+          label="Pause when empty"
+          description="Pause playback when everyone leaves and pick up where it stopped when someone returns."
+          checked={settings.autoPauseWhenEmpty}
+          onChange={(autoPauseWhenEmpty) => onUpdate({ autoPauseWhenEmpty })}
+        />
+        <label className="block">
+          <span className="flex items-center justify-between text-sm font-medium">
+            Crossfade
+            <span className="text-xs text-gray-400">
+              {settings.crossfadeSeconds > 0 ? `${settings.crossfadeSeconds}s` : 'Off'}
+            </span>
+          </span>
+          <span className="block text-xs text-gray-400 mb-2">
+            Start the next track early and fade between them, like a radio station.
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={12}
+            step={1}
+            value={settings.crossfadeSeconds}
+            onChange={(e) => onUpdate({ crossfadeSeconds: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+        </label>
+        <label className="block">
+          <span className="flex items-center justify-between text-sm font-medium">
+            Meh auto-skip
+            <span className="text-xs text-gray-400">
+              {settings.mehSkipFraction > 0 ? `Over ${Math.round(settings.mehSkipFraction * 100)}%` : 'Off'}
+            </span>
+          </span>
+          <span className="block text-xs text-gray-400 mb-2">
+            Skip the playing track when more than this share of the listeners in the room meh it.
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.mehSkipFraction}
+            onChange={(e) => onUpdate({ mehSkipFraction: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+        </label>
+
+        <div className="border-t border-gray-700 pt-4 space-y-3">
+          <p className="text-sm font-medium">
+            Submission rules <span className="text-xs font-normal text-gray-400">(0 = no limit)</span>
+          </p>
+          <NumberField
+            label="Tracks per person in the queue"
+            unit="tracks"
+            value={settings.maxQueuedPerUser}
+            max={50}
+            onChange={(maxQueuedPerUser) => onUpdate({ maxQueuedPerUser })}
+          />
+          <NumberField
+            label="Longest track"
+            unit="min"
+            value={Math.round(settings.maxTrackSeconds / 60)}
+            max={360}
+            onChange={(minutes) => onUpdate({ maxTrackSeconds: minutes * 60 })}
+          />
+          <NumberField
+            label="Wait between submissions"
+            unit="sec"
+            value={settings.submitCooldownSeconds}
+            max={3600}
+            onChange={(submitCooldownSeconds) => onUpdate({ submitCooldownSeconds })}
+          />
+          <NumberField
+            label="Don't replay a track within"
+            unit="min"
+            value={settings.repeatWindowMinutes}
+            max={10080}
+            onChange={(repeatWindowMinutes) => onUpdate({ repeatWindowMinutes })}
+          />
+          <Toggle
+            label="Guests cannot queue"
+            description="Only signed-up users can add tracks."
+            checked={settings.guestsCannotQueue}
+            onChange={(guestsCannotQueue) => onUpdate({ guestsCannotQueue })}
+          />
+        </div>
+
+        <AutoplaySettings isOpen={isOpen} settings={settings} onUpdate={onUpdate} />
+      </div>
+    </Modal>
+  );
+}
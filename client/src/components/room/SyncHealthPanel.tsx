@@ -0,0 +1,81 @@
+import { useEffect } from 'react';
+import type { SyncHealthEntry } from '../../hooks/useRoom';
+import Button from '../ui/Button';
+
+interface SyncHealthPanelProps {
+  entries: SyncHealthEntry[];
+  leaderId: string | null;
+  onRefresh: () => void;
+  onResync: (socketId: string) => void;
+}
+
+const REFRESH_INTERVAL_MS = 3000;
+
+// Drift beyond this is what the players' own correction would fix (SYNC_ACCURACY)
+const DRIFT_WARNING_SECONDS = 2;
+
+function formatDrift(drift: number): string {
+  return `${drift >= 0 ? '+' : ''}${drift.toFixed(1)}s`;
+}
+
+export default function SyncHealthPanel({ entries, leaderId, onRefresh, onResync }: SyncHealthPanelProps) {
+  // Poll while the panel is open
+  useEffect(() => {
+    onRefresh();
+    const interval = setInterval(onRefresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [onRefresh]);
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+          Sync Health
+        </h3>
+        <span className="text-xs text-gray-500">{entries.length} player{entries.length !== 1 ? 's' : ''}</span>
+      </div>
+
+      <div className="space-y-1.5 max-h-48 overflow-y-auto">
+        {entries.map((entry) => {
+          const isEntryLeader = entry.userId === leaderId;
+          const outOfSync = entry.drift !== null && Math.abs(entry.drift) > DRIFT_WARNING_SECONDS;
+
+          return (
+            <div key={entry.socketId} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">
+                {entry.username}
+                {isEntryLeader && (
+                  <span className="ml-1.5 text-[10px] bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded-full font-medium">
+                    LEAD
+                  </span>
+                )}
+                {entry.buffering && (
+                  <span className="ml-1.5 text-[10px] bg-yellow-500/20 text-yellow-400 px-1.5 py-0.5 rounded-full font-medium">
+                    BUFFERING
+                  </span>
+                )}
+              </span>
+              <span
+                className={`text-xs tabular-nums ${outOfSync ? 'text-red-400' : 'text-gray-400'}`}
+                title={entry.rtt !== null ? `Round trip ${Math.round(entry.rtt)}ms` : undefined}
+              >
+                {entry.drift !== null ? formatDrift(entry.drift) : 'no data'}
+              </span>
+              {!isEntryLeader && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onResync(entry.socketId)}
+                  className="text-xs"
+                  title="Snap this player to the room position"
+                >
+                  Resync
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
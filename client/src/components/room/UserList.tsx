@@ -7,11 +7,14 @@ interface UserListProps {
   hostId: string;
   currentUserId: string;
   moderators: string[];
+  leaderId: string | null;
   isHost: boolean;
+  isLeader: boolean;
   canModerate: boolean;
   onRemoveUser: (userId: string) => void;
   onPromoteMod: (userId: string) => void;
   onDemoteMod: (userId: string) => void;
+  onGiveLeader: (userId: string) => void;
 }
 
 export default function UserList({
@@ -19,11 +22,14 @@ export default function UserList({
   hostId,
   currentUserId,
   moderators,
+  leaderId,
   isHost,
+  isLeader,
   canModerate,
   onRemoveUser,
   onPromoteMod,
   onDemoteMod,
+  onGiveLeader,
 }: UserListProps) {
   return (
     <div className="card">
@@ -39,6 +45,11 @@ export default function UserList({
           const isUserHost = user._id === hostId;
           const isUserMod = moderators.includes(user._id);
           const isSelf = user._id === currentUserId;
+          const isUserLeader = user._id === leaderId;
+
+          // The leader (or the host) can pass playback control to another host/mod
+          const canGiveLead =
+            !isSelf && !isUserLeader && (isLeader || isHost) && (isUserHost || isUserMod);
 
           // Determine if current user can kick this user
           // Host can kick anyone except themselves
@@ -63,6 +74,14 @@ export default function UserList({
                     MOD
                   </span>
                 )}
+                {isUserLeader && (
+                  <span
+                    className="ml-1.5 text-[10px] bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded-full font-medium"
+                    title="Controls playback for everyone"
+                  >
+                    LEAD
+                  </span>
+                )}
                 {user.isAnonymous && (
                   <span className="ml-1.5 text-[10px] bg-gray-700 text-gray-400 px-1.5 py-0.5 rounded-full font-medium">
                     GUEST
@@ -70,6 +89,17 @@ export default function UserList({
                 )}
               </span>
               <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                {canGiveLead && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onGiveLeader(user._id)}
+                    className="text-green-400 hover:text-green-300 text-xs"
+                    title="Give playback control"
+                  >
+                    Lead
+                  </Button>
+                )}
                 {/* Host can promote/demote moderators */}
                 {isHost && !isSelf && !isUserHost && (
                   isUserMod ? (
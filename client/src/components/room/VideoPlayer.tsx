@@ -1,41 +1,146 @@
-import { useRef, useCallback, useEffect, useState } from 'react';
+import { useRef, useCallback, useEffect, useState, useMemo } from 'react';
 import ReactPlayer from 'react-player';
-import type { CurrentVideo, MediaSync } from '../../hooks/useRoom';
+import type { CurrentVideo, MediaSync, SyncReport, VideoItem } from '../../hooks/useRoom';
+import type { MediaProvider } from '../../lib/media';
+import { useMediaProviders } from '../../hooks/useMediaProviders';
 
 interface VideoPlayerProps {
   currentVideo: CurrentVideo | null;
   canControl: boolean;
   isPaused: boolean;
+  playbackRate: number;
   mediaSync: MediaSync | null;
-  onDuration: (duration: number) => void;
+  nextUp: VideoItem | null;
+  crossfadeSeconds: number;
+  onDuration: (url: string, duration: number, playId: string | null) => void;
   onSendMediaUpdate: (currentTime: number, paused: boolean) => void;
+  onPlaybackRateChange: (playbackRate: number) => void;
+  onSyncReport: (report: SyncReport) => void;
+  serverNow: () => number;
 }
 
 const SYNC_ACCURACY = 2;
+// A moderator-forced resync lands exactly on the room position
+const FORCED_SYNC_ACCURACY = 0.25;
+
+// How often the player tells the server where it actually is (drift telemetry)
+const SYNC_REPORT_INTERVAL_MS = 5000;
+
+// Volume steps during a crossfade
+const FADE_STEP_MS = 100;
+
+// react-player settings from each provider. Preloaded players must not
+// start on their own, so only the current one gets YouTube's autoplay.
+function playerConfig(providers: MediaProvider[], autoplay: boolean): Record<string, any> {
+  const config: Record<string, any> = {};
+  for (const { player } of providers) {
+    if (player?.options) config[player.player] = player.options;
+  }
+  if (autoplay) {
+    config.youtube = { ...config.youtube, playerVars: { ...config.youtube?.playerVars, autoplay: 1 } };
+  }
+  return config;
+}
 
 export default function VideoPlayer({
   currentVideo,
   canControl,
   isPaused,
+  playbackRate,
   mediaSync,
+  nextUp,
+  crossfadeSeconds,
   onDuration,
   onSendMediaUpdate,
+  onPlaybackRateChange,
+  onSyncReport,
+  serverNow,
 }: VideoPlayerProps) {
   const playerRef = useRef<ReactPlayer>(null);
-  const [ready, setReady] = useState(false);
+  const providers = useMediaProviders();
+  const currentConfig = useMemo(() => playerConfig(providers || [], true), [providers]);
+  const preloadConfig = useMemo(() => playerConfig(providers || [], false), [providers]);
+  // Players are keyed by url, so a preloaded one is already ready when it takes over
+  const [readyUrls, setReadyUrls] = useState<string[]>([]);
+  const ready = !!currentVideo && readyUrls.includes(currentVideo.url);
+  // Previous track, still playing underneath while it fades out
+  const [fading, setFading] = useState<{ url: string; startedAt: number } | null>(null);
+  const [fadeProgress, setFadeProgress] = useState(1);
+  const previousUrl = useRef<string | null>(null);
+
+  // The current track, the one fading out, and the next one warming up. The
+  // order only ever appends: moving an iframe in the DOM reloads it.
+  const slotOrder = useRef<string[]>([]);
+  const wantedUrls = [currentVideo?.url, fading?.url, nextUp?.url].filter((url): url is string => !!url);
+  const slotUrls = slotOrder.current.filter((url) => wantedUrls.includes(url));
+  for (const url of wantedUrls) {
+    if (!slotUrls.includes(url)) slotUrls.push(url);
+  }
+  slotOrder.current = slotUrls;
+  const slotKey = slotUrls.join('\n');
+
   const durationReported = useRef(false);
   const isSyncing = useRef(false);
   // Track local paused state so we only sendMediaUpdate on actual changes
   // (mirrors CyTube's @paused flag on the player)
   const localPaused = useRef(false);
+  const buffering = useRef(false);
 
   useEffect(() => {
-    setReady(false);
     durationReported.current = false;
     isSyncing.current = false;
     localPaused.current = false;
+    buffering.current = false;
+
+    const prev = previousUrl.current;
+    previousUrl.current = currentVideo?.url ?? null;
+    if (prev && currentVideo && crossfadeSeconds > 0 && !isPaused) {
+      setFading({ url: prev, startedAt: Date.now() });
+    } else {
+      setFading(null);
+    }
   }, [currentVideo?.url]);
 
+  // Ramp the new track up and the old one down
+  useEffect(() => {
+    if (!fading) {
+      setFadeProgress(1);
+      return;
+    }
+
+    const tick = () => {
+      const progress = Math.min((Date.now() - fading.startedAt) / (crossfadeSeconds * 1000), 1);
+      setFadeProgress(progress);
+      if (progress >= 1) setFading(null);
+    };
+    tick();
+    const interval = setInterval(tick, FADE_STEP_MS);
+    return () => clearInterval(interval);
+  }, [fading, crossfadeSeconds]);
+
+  const handleReady = useCallback((url: string) => {
+    setReadyUrls((prev) => (prev.includes(url) ? prev : [...prev, url]));
+  }, []);
+
+  // Forget players that were unmounted; they'll report ready again if they come back
+  useEffect(() => {
+    setReadyUrls((prev) => prev.filter((url) => slotUrls.includes(url)));
+  }, [slotKey]);
+
+  // Periodically report the real player position so moderators can spot drift
+  useEffect(() => {
+    if (!ready || !currentVideo) return;
+
+    const url = currentVideo.url;
+    const interval = setInterval(() => {
+      const position = playerRef.current?.getCurrentTime();
+      if (typeof position !== 'number' || !isFinite(position)) return;
+      onSyncReport({ url, position, buffering: buffering.current, serverTime: serverNow() });
+    }, SYNC_REPORT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [ready, currentVideo?.url, onSyncReport, serverNow]);
+
   // Initial seek when player becomes ready
   useEffect(() => {
     if (!ready || !playerRef.current || !currentVideo?.startedAt) return;
@@ -46,7 +151,9 @@ export default function VideoPlayer({
       localPaused.current = true;
       setTimeout(() => { isSyncing.current = false; }, 500);
     } else {
-      const elapsed = (Date.now() - new Date(currentVideo.startedAt).getTime()) / 1000;
+      // Use the server's clock so a skewed local clock doesn't shift the seek;
+      // startedAt is where position 0 falls at the room's current speed
+      const elapsed = ((serverNow() - new Date(currentVideo.startedAt).getTime()) / 1000) * playbackRate;
       if (elapsed > 1) {
         isSyncing.current = true;
         playerRef.current.seekTo(elapsed, 'seconds');
@@ -74,8 +181,13 @@ export default function VideoPlayer({
     const internal = playerRef.current.getInternalPlayer();
     if (!internal) return;
 
-    const time = mediaSync.currentTime;
     const serverPaused = mediaSync.paused;
+    // Project the server's position forward by the time since it was sampled,
+    // at the room's playback speed
+    const time = serverPaused
+      ? mediaSync.currentTime
+      : mediaSync.currentTime +
+        (Math.max(serverNow() - mediaSync.serverTime, 0) / 1000) * (mediaSync.playbackRate || 1);
 
     // "if data.paused and not PLAYER.paused → seekTo + pause"
     if (serverPaused && !localPaused.current) {
@@ -108,7 +220,11 @@ export default function VideoPlayer({
       const seconds = internal.getCurrentTime();
       const diff = time - seconds;
 
-      if (diff > SYNC_ACCURACY) {
+      if (mediaSync.force && Math.abs(diff) > FORCED_SYNC_ACCURACY) {
+        isSyncing.current = true;
+        playerRef.current.seekTo(time, 'seconds');
+        setTimeout(() => { isSyncing.current = false; }, 500);
+      } else if (diff > SYNC_ACCURACY) {
         isSyncing.current = true;
         playerRef.current.seekTo(time, 'seconds');
         setTimeout(() => { isSyncing.current = false; }, 500);
@@ -122,14 +238,21 @@ export default function VideoPlayer({
 
   const handleDuration = useCallback(
     (dur: number) => {
-      if (!durationReported.current && dur > 0) {
+      if (!durationReported.current && currentVideo && dur > 0 && Number.isFinite(dur)) {
         durationReported.current = true;
-        onDuration(dur);
+        onDuration(currentVideo.url, dur, currentVideo.historyId ?? null);
       }
     },
-    [onDuration]
+    [currentVideo, onDuration]
   );
 
+  // A preloaded player reported its duration before it became current
+  useEffect(() => {
+    if (!ready) return;
+    const dur = playerRef.current?.getDuration();
+    if (dur) handleDuration(dur);
+  }, [ready, handleDuration]);
+
   // =====================================================================
   // CyTube onStateChange — exact copy of youtube.coffee logic:
   //
@@ -179,6 +302,15 @@ export default function VideoPlayer({
     [canControl, onSendMediaUpdate]
   );
 
+  // Leader changed speed from the player's own controls: apply it room-wide
+  const handlePlaybackRateChange = useCallback(
+    (rate: number) => {
+      if (isSyncing.current || !canControl) return;
+      if (rate !== playbackRate) onPlaybackRateChange(rate);
+    },
+    [canControl, playbackRate, onPlaybackRateChange]
+  );
+
   if (!currentVideo) {
     return (
       <div className="aspect-video bg-gray-900 rounded-xl flex items-center justify-center border border-gray-800">
@@ -193,27 +325,38 @@ export default function VideoPlayer({
 
   return (
     <div className="aspect-video bg-black rounded-xl overflow-hidden border border-gray-800 relative group">
-      <ReactPlayer
-        ref={playerRef}
-        url={currentVideo.url}
-        playing={!isPaused}
-        controls={true}
-        width="100%"
-        height="100%"
-        onReady={() => setReady(true)}
-        onDuration={handleDuration}
-        onPause={handlePause}
-        onPlay={handlePlay}
-        onSeek={handleSeek}
-        config={{
-          youtube: {
-            playerVars: {
-              autoplay: 1,
-              modestbranding: 1,
-            },
-          },
-        }}
-      />
+      {slotUrls.map((url) => {
+        const isCurrent = url === currentVideo.url;
+        const isFading = !isCurrent && url === fading?.url;
+
+        return (
+          <div
+            key={url}
+            className={isCurrent ? 'absolute inset-0 z-10' : 'absolute inset-0 opacity-0 pointer-events-none'}
+          >
+            <ReactPlayer
+              ref={isCurrent ? playerRef : undefined}
+              url={url}
+              playing={isCurrent ? !isPaused : isFading}
+              muted={!isCurrent && !isFading}
+              volume={fading ? (isCurrent ? fadeProgress : 1 - fadeProgress) : undefined}
+              playbackRate={playbackRate}
+              controls={isCurrent}
+              width="100%"
+              height="100%"
+              onReady={() => handleReady(url)}
+              onDuration={isCurrent ? handleDuration : undefined}
+              onPause={isCurrent ? handlePause : undefined}
+              onPlay={isCurrent ? handlePlay : undefined}
+              onSeek={isCurrent ? handleSeek : undefined}
+              onBuffer={isCurrent ? () => { buffering.current = true; } : undefined}
+              onBufferEnd={isCurrent ? () => { buffering.current = false; } : undefined}
+              onPlaybackRateChange={isCurrent ? handlePlaybackRateChange : undefined}
+              config={isCurrent ? currentConfig : preloadConfig}
+            />
+          </div>
+        );
+      })}
       {isPaused && (
         <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/40 pointer-events-none">
           <div className="bg-black/70 rounded-full p-4">
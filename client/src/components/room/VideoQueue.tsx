@@ -1,4 +1,6 @@
-import type { VideoItem } from '../../hooks/useRoom';
+import { useState } from 'react';
+import type { VideoItem, QueueMode } from '../../hooks/useRoom';
+import { formatTime, formatClipRange } from '../../lib/utils';
 import VoteControls from './VoteControls';
 import Button from '../ui/Button';
 
@@ -6,18 +8,82 @@ interface VideoQueueProps {
   queue: VideoItem[];
   userId: string;
   canModerate: boolean;
-  onVote: (videoIndex: number, type: 'up' | 'down') => void;
-  onRemove: (videoIndex: number) => void;
+  queueMode: QueueMode;
+  canChangeMode: boolean;
+  onVote: (itemId: string, type: 'up' | 'down') => void;
+  onRemove: (itemId: string) => void;
+  onMove: (itemId: string, position: number) => void;
+  onPlayNext: (itemId: string) => void;
+  onMoveToBottom: (itemId: string) => void;
+  onModeChange: (queueMode: QueueMode) => void;
 }
 
-export default function VideoQueue({ queue, userId, canModerate, onVote, onRemove }: VideoQueueProps) {
+const QUEUE_MODE_LABELS: Record<QueueMode, { label: string; hint: string }> = {
+  fifo: { label: 'In order', hint: 'Tracks play in the order they were added' },
+  votes: { label: 'By votes', hint: 'Most upvoted tracks play first' },
+  fair: { label: 'Fair share', hint: 'Takes turns between the people who added tracks' },
+  booth: { label: 'DJ booth', hint: 'DJs take turns from the waitlist, each playing from their own queue' },
+};
+
+// Seconds of the item that will actually play, when known
+function playedLength(video: VideoItem): number | null {
+  const duration = video.duration > 0 ? video.duration : null;
+  const endAt = video.endAt ?? null;
+  const end = endAt === null ? duration : duration === null ? endAt : Math.min(endAt, duration);
+  return end === null ? null : Math.max(end - (video.startAt || 0), 0);
+}
+
+export default function VideoQueue({
+  queue,
+  userId,
+  canModerate,
+  queueMode,
+  canChangeMode,
+  onVote,
+  onRemove,
+  onMove,
+  onPlayNext,
+  onMoveToBottom,
+  onModeChange,
+}: VideoQueueProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Ranked modes work out their own order, so only in-order queues can be rearranged
+  const canReorder = canModerate && (queueMode === 'fifo' || queueMode === 'booth');
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropIndex(null);
+  };
+
   return (
     <div className="card flex flex-col h-full">
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
           Queue
         </h3>
-        <span className="text-xs text-gray-500">{queue.length} videos</span>
+        <div className="flex items-center gap-2">
+          {canChangeMode ? (
+            <select
+              value={queueMode}
+              onChange={(e) => onModeChange(e.target.value as QueueMode)}
+              className="bg-gray-800 border border-gray-700 rounded-md text-xs text-gray-300 px-1.5 py-0.5"
+              title={QUEUE_MODE_LABELS[queueMode].hint}
+            >
+              {(Object.keys(QUEUE_MODE_LABELS) as QueueMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {QUEUE_MODE_LABELS[mode].label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-xs text-gray-400" title={QUEUE_MODE_LABELS[queueMode].hint}>
+              {QUEUE_MODE_LABELS[queueMode].label}
+            </span>
+          )}
+          <span className="text-xs text-gray-500">{queue.length} videos</span>
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
@@ -26,39 +92,93 @@ export default function VideoQueue({ queue, userId, canModerate, onVote, onRemov
             Queue is empty. Add a video to get started!
           </p>
         )}
-        {queue.map((video, index) => (
-          <div
-            key={video._id || index}
-            className="bg-gray-800/50 rounded-lg p-3 border border-gray-700/50 group"
-          >
-            <div className="flex items-start justify-between gap-2">
-              <div className="min-w-0 flex-1">
-                <p className="text-sm font-medium truncate">{video.title}</p>
-                <p className="text-xs text-gray-500 mt-0.5">
-                  Added by {video.addedBy.username}
-                </p>
-              </div>
-              <div className="flex items-center gap-2 shrink-0">
-                <VoteControls
-                  upvotes={video.upvotes}
-                  downvotes={video.downvotes}
-                  userId={userId}
-                  onVote={(type) => onVote(index, type)}
-                />
-                {canModerate && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => onRemove(index)}
-                    className="opacity-0 group-hover:opacity-100 text-red-400 hover:text-red-300"
-                  >
-                    ✕
-                  </Button>
+        {queue.map((video, index) => {
+          const length = playedLength(video);
+          const clip = formatClipRange(video.startAt, video.endAt ?? null);
+          return (
+            <div
+              key={video._id}
+              draggable={canReorder}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(video._id);
+              }}
+              onDragOver={(e) => {
+                if (!draggingId) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggingId && draggingId !== video._id) onMove(draggingId, index);
+                endDrag();
+              }}
+              onDragEnd={endDrag}
+              className={`bg-gray-800/50 rounded-lg p-3 border group ${
+                dropIndex === index && draggingId !== video._id ? 'border-purple-500/60' : 'border-gray-700/50'
+              } ${draggingId === video._id ? 'opacity-50' : ''} ${canReorder ? 'cursor-grab' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                {video.thumbnailUrl && (
+                  <img
+                    src={video.thumbnailUrl}
+                    alt=""
+                    loading="lazy"
+                    draggable={false}
+                    className="w-16 h-9 rounded object-cover shrink-0 bg-gray-900"
+                  />
                 )}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{video.title}</p>
+                  {video.author && <p className="text-xs text-gray-400 truncate">{video.author}</p>}
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Added by {video.addedBy.username}
+                    {length !== null && <span> · {formatTime(length)}</span>}
+                    {clip && <span className="text-purple-400" title="Only this part plays"> · ✂ {clip}</span>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <VoteControls
+                    upvotes={video.upvotes}
+                    downvotes={video.downvotes}
+                    userId={userId}
+                    onVote={(type) => onVote(video._id, type)}
+                  />
+                  {canReorder && (
+                    <div className="flex flex-col opacity-0 group-hover:opacity-100">
+                      <button
+                        onClick={() => onPlayNext(video._id)}
+                        disabled={index === 0}
+                        className="text-[10px] leading-none text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                        title="Play next"
+                      >
+                        ⤒
+                      </button>
+                      <button
+                        onClick={() => onMoveToBottom(video._id)}
+                        disabled={index === queue.length - 1}
+                        className="text-[10px] leading-none text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                        title="Move to bottom"
+                      >
+                        ⤓
+                      </button>
+                    </div>
+                  )}
+                  {canModerate && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemove(video._id)}
+                      className="opacity-0 group-hover:opacity-100 text-red-400 hover:text-red-300"
+                    >
+                      ✕
+                    </Button>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -1,13 +1,27 @@
-import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuth } from './AuthContext';
+import { computeClockSample, estimateClock, ClockSample } from '../lib/clockSync';
 
 interface SocketContextType {
   socket: Socket | null;
   connected: boolean;
+  clock: ClockSample | null;
+  serverNow: () => number;
 }
 
-const SocketContext = createContext<SocketContextType>({ socket: null, connected: false });
+const SocketContext = createContext<SocketContextType>({
+  socket: null,
+  connected: false,
+  clock: null,
+  serverNow: () => Date.now(),
+});
+
+// Clock sync: a burst of pings on connect, repeated periodically
+const CLOCK_PINGS_PER_BURST = 5;
+const CLOCK_PING_SPACING_MS = 150;
+const CLOCK_RESYNC_MS = 30000;
+const CLOCK_MAX_SAMPLES = 15;
 
 export function useSocket(): SocketContextType {
   return useContext(SocketContext);
@@ -16,7 +30,12 @@ export function useSocket(): SocketContextType {
 export function SocketProvider({ children }: { children: React.ReactNode }) {
   const { token } = useAuth();
   const [connected, setConnected] = useState(false);
+  const [clock, setClock] = useState<ClockSample | null>(null);
   const socketRef = useRef<Socket | null>(null);
+  const clockOffsetRef = useRef(0);
+
+  // Current time on the server's clock, in epoch ms
+  const serverNow = useCallback(() => Date.now() + clockOffsetRef.current, []);
 
   useEffect(() => {
     if (!token) {
@@ -36,9 +55,38 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       transports: ['websocket', 'polling'],
     });
 
+    let samples: ClockSample[] = [];
+    let burstTimers: ReturnType<typeof setTimeout>[] = [];
+
+    const runClockBurst = () => {
+      burstTimers.forEach(clearTimeout);
+      burstTimers = [];
+      for (let i = 0; i < CLOCK_PINGS_PER_BURST; i++) {
+        burstTimers.push(setTimeout(() => {
+          socket.emit('clockPing', { t0: Date.now() });
+        }, i * CLOCK_PING_SPACING_MS));
+      }
+    };
+
+    socket.on('clockPong', (data: { t0: number; t1: number; t2: number }) => {
+      samples = [...samples, computeClockSample(data.t0, data.t1, data.t2, Date.now())]
+        .slice(-CLOCK_MAX_SAMPLES);
+      const estimate = estimateClock(samples);
+      if (!estimate) return;
+      clockOffsetRef.current = estimate.offset;
+      setClock(estimate);
+      socket.emit('clockStats', estimate);
+    });
+
+    const resyncInterval = setInterval(() => {
+      if (socket.connected) runClockBurst();
+    }, CLOCK_RESYNC_MS);
+
     socket.on('connect', () => {
       console.log('[Socket] Connected');
       setConnected(true);
+      samples = [];
+      runClockBurst();
     });
 
     socket.on('disconnect', () => {
@@ -54,6 +102,8 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     socketRef.current = socket;
 
     return () => {
+      clearInterval(resyncInterval);
+      burstTimers.forEach(clearTimeout);
       socket.disconnect();
       socketRef.current = null;
       setConnected(false);
@@ -61,7 +111,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
   }, [token]);
 
   return (
-    <SocketContext.Provider value={{ socket: socketRef.current, connected }}>
+    <SocketContext.Provider value={{ socket: socketRef.current, connected, clock, serverNow }}>
       {children}
     </SocketContext.Provider>
   );
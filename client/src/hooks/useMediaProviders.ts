@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { loadMediaProviders, type MediaProvider } from '../lib/media';
+
+/**
+ * The media providers the server supports; null until they have loaded (or
+ * if they couldn't be), in which case callers leave URL checks to the server.
+ */
+export function useMediaProviders(): MediaProvider[] | null {
+  const [providers, setProviders] = useState<MediaProvider[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMediaProviders()
+      .then((loaded) => {
+        if (!cancelled) setProviders(loaded);
+      })
+      .catch(() => {
+        // Leave validation to the server
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return providers;
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Whether the viewport currently matches a CSS media query, updated as it
+ * changes. Lets a layout mount a component in one place instead of rendering
+ * it twice and hiding one copy with CSS.
+ */
+export function useMediaQuery(query: string): boolean {
+  const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+
+  useEffect(() => {
+    const mediaQuery = window.matchMedia(query);
+    const onChange = () => setMatches(mediaQuery.matches);
+    onChange();
+    mediaQuery.addEventListener('change', onChange);
+    return () => mediaQuery.removeEventListener('change', onChange);
+  }, [query]);
+
+  return matches;
+}
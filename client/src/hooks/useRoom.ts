@@ -10,43 +10,135 @@ export interface RoomUser {
 }
 
 export interface VideoItem {
-  _id?: string;
+  _id: string;
   url: string;
+  providerId: string | null; // e.g. "youtube:dQw4w9WgXcQ"
   title: string;
+  author?: string | null; // channel or uploader
+  thumbnailUrl?: string | null;
   duration: number;
+  startAt?: number;
+  endAt?: number | null;
   addedBy: { _id: string; username: string };
   upvotes: string[];
   downvotes: string[];
+  addedAt?: string;
 }
 
 export interface CurrentVideo {
   url: string;
+  providerId: string | null;
   title: string;
+  author?: string | null;
+  thumbnailUrl?: string | null;
   duration: number;
+  startAt?: number;
+  endAt?: number | null;
   addedBy: { _id: string; username: string };
   startedAt: string;
+  playbackRate?: number;
+  historyId?: string | null; // tells this play apart from a replay of the same url
+  woots?: string[]; // userIds
+  mehs?: string[];
+  grabs?: string[];
+  autoPicked?: boolean; // chosen by autoplay; the next submission replaces it
 }
 
+export type ReactionType = 'woot' | 'meh' | 'grab';
+
 export interface ChatMessage {
   user: { _id: string; username: string; avatarColor: string };
   message: string;
   timestamp: string;
 }
 
+// Optional part of a track to play, in seconds into the media
+export interface ClipRange {
+  startAt?: number;
+  endAt?: number;
+}
+
+export type QueueMode = 'fifo' | 'votes' | 'fair' | 'booth';
+
+// What the room plays when the queue runs dry
+export type FallbackMode = 'off' | 'playlist' | 'history' | 'repeat';
+
+// A DJ waiting for their turn in the booth
+export interface WaitlistEntry {
+  userId: string;
+  username: string;
+}
+
+export interface RoomSettings {
+  autoPauseWhenEmpty: boolean;
+  crossfadeSeconds: number;
+  queueMode: QueueMode;
+  mehSkipFraction: number;
+  maxQueuedPerUser: number; // 0 = no limit
+  maxTrackSeconds: number; // 0 = no limit
+  submitCooldownSeconds: number;
+  guestsCannotQueue: boolean;
+  repeatWindowMinutes: number; // 0 = off
+  fallbackMode: FallbackMode;
+  fallbackPlaylistId: string | null;
+}
+
+export type ImportFormat = 'm3u' | 'text' | 'json';
+
+export interface ImportFailure {
+  line: number;
+  input: string;
+  reason: string;
+}
+
+// Outcome of an addVideos import; error is set when nothing could be added
+export interface ImportResult {
+  added: number;
+  failures: ImportFailure[];
+  error?: string;
+}
+
+export interface PlaylistQueueResult extends ImportResult {
+  playlistId: string;
+}
+
 export interface RoomData {
   _id: string;
   name: string;
   slug: string;
   creatorId: string;
   moderators: string[];
+  leaderId: string | null;
   isPrivate: boolean;
   currentVideo: CurrentVideo | null;
   queue: VideoItem[];
+  waitlist: WaitlistEntry[];
+  settings: RoomSettings;
 }
 
 export interface MediaSync {
   currentTime: number;
   paused: boolean;
+  playbackRate: number;
+  serverTime: number; // server clock (epoch ms) when currentTime was sampled
+  force?: boolean; // moderator-requested resync: seek even when within tolerance
+}
+
+export interface SyncReport {
+  url: string;
+  position: number;
+  buffering: boolean;
+  serverTime: number;
+}
+
+export interface SyncHealthEntry {
+  socketId: string;
+  userId: string;
+  username: string;
+  drift: number | null; // seconds ahead (+) or behind (-) the room
+  buffering: boolean;
+  reportAge: number | null; // ms since the listener last reported
+  rtt: number | null;
 }
 
 interface UseRoomReturn {
@@ -59,23 +151,50 @@ interface UseRoomReturn {
   isHost: boolean;
   isModerator: boolean;
   canModerate: boolean;
+  leaderId: string | null;
+  isLeader: boolean;
   isPaused: boolean;
+  playbackRate: number;
   mediaSync: MediaSync | null;
+  syncHealth: SyncHealthEntry[];
+  nextUp: VideoItem | null;
+  waitlist: WaitlistEntry[];
+  myDjQueue: VideoItem[];
+  importResult: ImportResult | null;
+  playlistResult: PlaylistQueueResult | null;
   error: string | null;
   passwordRequired: boolean;
   sendChat: (message: string) => void;
-  addVideo: (url: string) => void;
-  vote: (videoIndex: number, type: 'up' | 'down') => void;
+  addVideo: (url: string, clip?: ClipRange) => void;
+  addVideos: (content: string, format?: ImportFormat) => void;
+  queuePlaylist: (playlistId: string, trackIds?: string[]) => void;
+  vote: (itemId: string, type: 'up' | 'down') => void;
   skipVideo: () => void;
-  removeVideo: (videoIndex: number) => void;
+  removeVideo: (itemId: string) => void;
+  moveVideo: (itemId: string, position: number) => void;
+  playNext: (itemId: string) => void;
+  moveToBottom: (itemId: string) => void;
+  react: (type: ReactionType) => void;
   removeUser: (userId: string) => void;
-  reportDuration: (duration: number) => void;
+  reportDuration: (url: string, duration: number, playId: string | null) => void;
   submitPassword: (password: string) => void;
   togglePrivacy: (isPrivate: boolean, password?: string) => void;
   deleteRoom: () => void;
   sendMediaUpdate: (currentTime: number, paused: boolean) => void;
+  setPlaybackRate: (playbackRate: number) => void;
   promoteMod: (userId: string) => void;
   demoteMod: (userId: string) => void;
+  takeLeader: () => void;
+  giveLeader: (userId: string) => void;
+  sendSyncReport: (report: SyncReport) => void;
+  requestSyncHealth: () => void;
+  forceResync: (socketId: string) => void;
+  updateSettings: (settings: Partial<RoomSettings>) => void;
+  joinWaitlist: () => void;
+  leaveWaitlist: () => void;
+  moveInWaitlist: (userId: string, position: number) => void;
+  removeFromDjQueue: (itemId: string) => void;
+  moveInDjQueue: (itemId: string, position: number) => void;
 }
 
 export function useRoom(socket: Socket | null, slug: string, userId: string): UseRoomReturn {
@@ -88,13 +207,24 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
   const [error, setError] = useState<string | null>(null);
   const [passwordRequired, setPasswordRequired] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [playbackRate, setPlaybackRateState] = useState(1);
   const [moderators, setModerators] = useState<string[]>([]);
+  const [leaderId, setLeaderId] = useState<string | null>(null);
   const [mediaSync, setMediaSync] = useState<MediaSync | null>(null);
+  const [syncHealth, setSyncHealth] = useState<SyncHealthEntry[]>([]);
+  const [nextUp, setNextUp] = useState<VideoItem | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [myDjQueue, setMyDjQueue] = useState<VideoItem[]>([]);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [playlistResult, setPlaylistResult] = useState<PlaylistQueueResult | null>(null);
   const joinedRef = useRef(false);
+  // Latest queue, so patches arriving before a re-render build on each other
+  const queueRef = useRef<VideoItem[]>([]);
 
   const isHost = room?.creatorId === userId;
   const isModerator = moderators.includes(userId);
   const canModerate = isHost || isModerator;
+  const isLeader = leaderId === userId;
 
   const submitPassword = useCallback(
     (password: string) => {
@@ -118,21 +248,28 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
     const handleRoomState = (data: {
       room: RoomData;
       users: RoomUser[];
-      playbackState?: { isPaused: boolean; pausedAt: number };
+      playbackState?: { isPaused: boolean; pausedAt: number; playbackRate?: number };
+      serverTime: number;
     }) => {
       setRoom(data.room);
       setUsers(data.users);
       setCurrentVideo(data.room.currentVideo);
+      queueRef.current = data.room.queue;
       setQueue(data.room.queue);
+      setWaitlist(data.room.waitlist || []);
       setModerators(data.room.moderators || []);
+      setLeaderId(data.room.leaderId ?? null);
       setError(null);
       if (data.playbackState) {
         setIsPaused(data.playbackState.isPaused);
+        setPlaybackRateState(data.playbackState.playbackRate || 1);
         if (data.playbackState.isPaused && data.playbackState.pausedAt > 0) {
           // Seed initial mediaSync so VideoPlayer can sync on join
           setMediaSync({
             currentTime: data.playbackState.pausedAt,
             paused: true,
+            playbackRate: data.playbackState.playbackRate || 1,
+            serverTime: data.serverTime,
           });
         }
       } else {
@@ -161,13 +298,32 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
     };
 
     const handleQueueUpdated = (data: { queue: VideoItem[] }) => {
+      queueRef.current = data.queue;
       setQueue(data.queue);
     };
 
+    // Incremental change to the queue; `order` lists every id in play order
+    const handleQueuePatch = (data: { upserts?: VideoItem[]; removed?: string[]; order: string[] }) => {
+      const byId = new Map(queueRef.current.map((item) => [item._id, item]));
+      for (const item of data.upserts || []) byId.set(item._id, item);
+      for (const id of data.removed || []) byId.delete(id);
+
+      const next = data.order.map((id) => byId.get(id));
+      if (next.some((item) => !item)) {
+        // We missed an update somewhere; start again from the server's copy
+        socket.emit('getQueue');
+        return;
+      }
+      queueRef.current = next as VideoItem[];
+      setQueue(queueRef.current);
+    };
+
     const handleNowPlaying = (data: { video: CurrentVideo | null }) => {
       setCurrentVideo(data.video);
       setIsPaused(false);
       setMediaSync(null);
+      setNextUp(null);
+      if (data.video?.playbackRate) setPlaybackRateState(data.video.playbackRate);
     };
 
     const handleError = (data: { message: string }) => {
@@ -197,14 +353,62 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
       navigate('/', { replace: true });
     };
 
+    const handleSettingsUpdated = (data: { settings: RoomSettings }) => {
+      setRoom((prev) => (prev ? { ...prev, settings: data.settings } : prev));
+    };
+
     const handleModeratorsUpdated = (data: { moderators: string[] }) => {
       setModerators(data.moderators);
     };
 
+    const handleLeaderChanged = (data: { leaderId: string | null }) => {
+      setLeaderId(data.leaderId);
+    };
+
     // CyTube-style: ONE event for all playback sync
-    const handleMediaUpdate = (data: { currentTime: number; paused: boolean }) => {
+    const handleMediaUpdate = (data: MediaSync) => {
       setMediaSync(data);
       setIsPaused(data.paused);
+      if (data.playbackRate) setPlaybackRateState(data.playbackRate);
+    };
+
+    // A moderator snapped this player back to the room position
+    const handleForceResync = (data: MediaSync) => {
+      handleMediaUpdate({ ...data, force: true });
+    };
+
+    // Server announces the next track shortly before the switch so it can be preloaded
+    const handleNextUp = (data: { video: VideoItem }) => {
+      setNextUp(data.video);
+    };
+
+    const handleSyncHealth = (data: { entries: SyncHealthEntry[] }) => {
+      setSyncHealth(data.entries);
+    };
+
+    const handleReactionsUpdated = (data: { url: string; woots: string[]; mehs: string[]; grabs: string[] }) => {
+      setCurrentVideo((prev) =>
+        prev && prev.url === data.url
+          ? { ...prev, woots: data.woots, mehs: data.mehs, grabs: data.grabs }
+          : prev
+      );
+    };
+
+    const handleWaitlistUpdated = (data: { waitlist: WaitlistEntry[] }) => {
+      setWaitlist(data.waitlist);
+    };
+
+    // Sent to all of this user's tabs, so ignore updates for other rooms
+    const handleDjQueueUpdated = (data: { roomSlug: string; queue: VideoItem[] }) => {
+      if (data.roomSlug === slug) setMyDjQueue(data.queue);
+    };
+
+    const handleImportResult = (data: ImportResult) => {
+      setImportResult(data);
+    };
+
+    const handlePlaylistQueued = (data: PlaylistQueueResult) => {
+      setPlaylistResult(data);
     };
 
     socket.on('roomState', handleRoomState);
@@ -213,14 +417,25 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
     socket.on('userLeft', handleUserLeft);
     socket.on('chatMessage', handleChatMessage);
     socket.on('queueUpdated', handleQueueUpdated);
+    socket.on('queuePatch', handleQueuePatch);
     socket.on('nowPlaying', handleNowPlaying);
     socket.on('error', handleError);
     socket.on('kicked', handleKicked);
     socket.on('passwordRequired', handlePasswordRequired);
     socket.on('privacyUpdated', handlePrivacyUpdated);
+    socket.on('settingsUpdated', handleSettingsUpdated);
     socket.on('roomDeleted', handleRoomDeleted);
     socket.on('moderatorsUpdated', handleModeratorsUpdated);
+    socket.on('leaderChanged', handleLeaderChanged);
     socket.on('mediaUpdate', handleMediaUpdate);
+    socket.on('forceResync', handleForceResync);
+    socket.on('syncHealth', handleSyncHealth);
+    socket.on('nextUp', handleNextUp);
+    socket.on('reactionsUpdated', handleReactionsUpdated);
+    socket.on('waitlistUpdated', handleWaitlistUpdated);
+    socket.on('djQueueUpdated', handleDjQueueUpdated);
+    socket.on('importResult', handleImportResult);
+    socket.on('playlistQueued', handlePlaylistQueued);
 
     return () => {
       joinedRef.current = false;
@@ -231,14 +446,25 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
       socket.off('userLeft', handleUserLeft);
       socket.off('chatMessage', handleChatMessage);
       socket.off('queueUpdated', handleQueueUpdated);
+      socket.off('queuePatch', handleQueuePatch);
       socket.off('nowPlaying', handleNowPlaying);
       socket.off('error', handleError);
       socket.off('kicked', handleKicked);
       socket.off('passwordRequired', handlePasswordRequired);
       socket.off('privacyUpdated', handlePrivacyUpdated);
+      socket.off('settingsUpdated', handleSettingsUpdated);
       socket.off('roomDeleted', handleRoomDeleted);
       socket.off('moderatorsUpdated', handleModeratorsUpdated);
+      socket.off('leaderChanged', handleLeaderChanged);
       socket.off('mediaUpdate', handleMediaUpdate);
+      socket.off('forceResync', handleForceResync);
+      socket.off('syncHealth', handleSyncHealth);
+      socket.off('nextUp', handleNextUp);
+      socket.off('reactionsUpdated', handleReactionsUpdated);
+      socket.off('waitlistUpdated', handleWaitlistUpdated);
+      socket.off('djQueueUpdated', handleDjQueueUpdated);
+      socket.off('importResult', handleImportResult);
+      socket.off('playlistQueued', handlePlaylistQueued);
     };
   }, [socket, slug, navigate]);
 
@@ -250,15 +476,34 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
   );
 
   const addVideo = useCallback(
-    (url: string) => {
-      if (socket) socket.emit('addVideo', { url });
+    (url: string, clip?: ClipRange) => {
+      if (socket) socket.emit('addVideo', { url, ...clip });
+    },
+    [socket]
+  );
+
+  // The result arrives as importResult; clear the last one so callers can tell it's pending
+  const addVideos = useCallback(
+    (content: string, format?: ImportFormat) => {
+      if (!socket) return;
+      setImportResult(null);
+      socket.emit('addVideos', { content, format });
+    },
+    [socket]
+  );
+
+  const queuePlaylist = useCallback(
+    (playlistId: string, trackIds?: string[]) => {
+      if (!socket) return;
+      setPlaylistResult(null);
+      socket.emit('queuePlaylist', { playlistId, trackIds });
     },
     [socket]
   );
 
   const vote = useCallback(
-    (videoIndex: number, type: 'up' | 'down') => {
-      if (socket) socket.emit('vote', { videoIndex, type });
+    (itemId: string, type: 'up' | 'down') => {
+      if (socket) socket.emit('vote', { itemId, type });
     },
     [socket]
   );
@@ -268,8 +513,53 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
   }, [socket]);
 
   const removeVideo = useCallback(
-    (videoIndex: number) => {
-      if (socket) socket.emit('removeVideo', { videoIndex });
+    (itemId: string) => {
+      if (socket) socket.emit('removeVideo', { itemId });
+    },
+    [socket]
+  );
+
+  // Reorder locally right away; the server's queuePatch (or, if the move is
+  // rejected, its queueUpdated) then replaces this guess
+  const moveLocally = useCallback((itemId: string, position: number) => {
+    const item = queueRef.current.find((video) => video._id === itemId);
+    if (!item) return;
+    const next = queueRef.current.filter((video) => video !== item);
+    next.splice(position, 0, item);
+    queueRef.current = next;
+    setQueue(next);
+  }, []);
+
+  const moveVideo = useCallback(
+    (itemId: string, position: number) => {
+      if (!socket) return;
+      moveLocally(itemId, position);
+      socket.emit('moveVideo', { itemId, position });
+    },
+    [socket, moveLocally]
+  );
+
+  const playNext = useCallback(
+    (itemId: string) => {
+      if (!socket) return;
+      moveLocally(itemId, 0);
+      socket.emit('playNext', { itemId });
+    },
+    [socket, moveLocally]
+  );
+
+  const moveToBottom = useCallback(
+    (itemId: string) => {
+      if (!socket) return;
+      moveLocally(itemId, queueRef.current.length - 1);
+      socket.emit('moveToBottom', { itemId });
+    },
+    [socket, moveLocally]
+  );
+
+  const react = useCallback(
+    (type: ReactionType) => {
+      if (socket) socket.emit('react', { type });
     },
     [socket]
   );
@@ -282,8 +572,8 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
   );
 
   const reportDuration = useCallback(
-    (duration: number) => {
-      if (socket) socket.emit('reportDuration', { duration });
+    (url: string, duration: number, playId: string | null) => {
+      if (socket) socket.emit('reportDuration', { url, duration, playId });
     },
     [socket]
   );
@@ -307,6 +597,13 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
     [socket]
   );
 
+  const setPlaybackRate = useCallback(
+    (rate: number) => {
+      if (socket) socket.emit('setPlaybackRate', { playbackRate: rate });
+    },
+    [socket]
+  );
+
   const promoteMod = useCallback(
     (targetUserId: string) => {
       if (socket) socket.emit('promoteMod', { userId: targetUserId });
@@ -321,6 +618,71 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
     [socket]
   );
 
+  const takeLeader = useCallback(() => {
+    if (socket) socket.emit('takeLeader');
+  }, [socket]);
+
+  const giveLeader = useCallback(
+    (targetUserId: string) => {
+      if (socket) socket.emit('giveLeader', { userId: targetUserId });
+    },
+    [socket]
+  );
+
+  const sendSyncReport = useCallback(
+    (report: SyncReport) => {
+      if (socket) socket.emit('syncReport', report);
+    },
+    [socket]
+  );
+
+  const requestSyncHealth = useCallback(() => {
+    if (socket) socket.emit('getSyncHealth');
+  }, [socket]);
+
+  const forceResync = useCallback(
+    (socketId: string) => {
+      if (socket) socket.emit('forceResync', { socketId });
+    },
+    [socket]
+  );
+
+  const updateSettings = useCallback(
+    (settings: Partial<RoomSettings>) => {
+      if (socket) socket.emit('updateSettings', settings);
+    },
+    [socket]
+  );
+
+  const joinWaitlist = useCallback(() => {
+    if (socket) socket.emit('joinWaitlist');
+  }, [socket]);
+
+  const leaveWaitlist = useCallback(() => {
+    if (socket) socket.emit('leaveWaitlist');
+  }, [socket]);
+
+  const moveInWaitlist = useCallback(
+    (targetUserId: string, position: number) => {
+      if (socket) socket.emit('moveInWaitlist', { userId: targetUserId, position });
+    },
+    [socket]
+  );
+
+  const removeFromDjQueue = useCallback(
+    (itemId: string) => {
+      if (socket) socket.emit('removeFromDjQueue', { itemId });
+    },
+    [socket]
+  );
+
+  const moveInDjQueue = useCallback(
+    (itemId: string, position: number) => {
+      if (socket) socket.emit('moveInDjQueue', { itemId, position });
+    },
+    [socket]
+  );
+
   return {
     room,
     users,
@@ -331,22 +693,49 @@ export function useRoom(socket: Socket | null, slug: string, userId: string): Us
     isHost,
     isModerator,
     canModerate,
+    leaderId,
+    isLeader,
     isPaused,
+    playbackRate,
     mediaSync,
+    syncHealth,
+    nextUp,
+    waitlist,
+    myDjQueue,
+    importResult,
+    playlistResult,
     error,
     passwordRequired,
     sendChat,
     addVideo,
+    addVideos,
+    queuePlaylist,
     vote,
     skipVideo,
     removeVideo,
+    moveVideo,
+    playNext,
+    moveToBottom,
+    react,
     removeUser,
     reportDuration,
     submitPassword,
     togglePrivacy,
     deleteRoom,
     sendMediaUpdate,
+    setPlaybackRate,
     promoteMod,
     demoteMod,
+    takeLeader,
+    giveLeader,
+    sendSyncReport,
+    requestSyncHealth,
+    forceResync,
+    updateSettings,
+    joinWaitlist,
+    leaveWaitlist,
+    moveInWaitlist,
+    removeFromDjQueue,
+    moveInDjQueue,
   };
 }
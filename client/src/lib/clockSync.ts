@@ -0,0 +1,32 @@
+export interface ClockSample {
+  offset: number; // ms to add to the local clock to get server time
+  rtt: number;    // round-trip time in ms
+}
+
+/**
+ * One NTP-style exchange: t0 client send, t1 server receive,
+ * t2 server send, t3 client receive (all epoch ms).
+ */
+export function computeClockSample(t0: number, t1: number, t2: number, t3: number): ClockSample {
+  return {
+    offset: ((t1 - t0) + (t2 - t3)) / 2,
+    rtt: (t3 - t0) - (t2 - t1),
+  };
+}
+
+/**
+ * Combine samples into one estimate. Fast round trips carry the least
+ * asymmetric-latency error, so only the best third is averaged.
+ */
+export function estimateClock(samples: ClockSample[]): ClockSample | null {
+  if (samples.length === 0) return null;
+
+  const best = [...samples]
+    .sort((a, b) => a.rtt - b.rtt)
+    .slice(0, Math.max(1, Math.ceil(samples.length / 3)));
+
+  return {
+    offset: best.reduce((sum, s) => sum + s.offset, 0) / best.length,
+    rtt: best.reduce((sum, s) => sum + s.rtt, 0) / best.length,
+  };
+}
@@ -0,0 +1,44 @@
+import api from './api';
+
+// A media site the server accepts tracks from (GET /api/media/providers)
+export interface MediaProvider {
+  id: string;
+  name: string;
+  patterns: RegExp[];
+  player: { player: string; options?: Record<string, unknown> } | null;
+}
+
+interface ProviderDescription extends Omit<MediaProvider, 'patterns'> {
+  patterns: { source: string; flags: string }[];
+}
+
+let request: Promise<MediaProvider[]> | null = null;
+
+/** The server's providers, fetched once per page load. */
+export function loadMediaProviders(): Promise<MediaProvider[]> {
+  if (!request) {
+    request = api
+      .get<ProviderDescription[]>('/media/providers')
+      .then(({ data }) =>
+        data.map((provider) => ({
+          ...provider,
+          patterns: provider.patterns.map(({ source, flags }) => new RegExp(source, flags)),
+        }))
+      )
+      .catch((err) => {
+        request = null; // try again next time
+        throw err;
+      });
+  }
+  return request;
+}
+
+export function findProvider(providers: MediaProvider[], url: string): MediaProvider | undefined {
+  return providers.find((provider) => provider.patterns.some((pattern) => pattern.test(url)));
+}
+
+/** "YouTube, SoundCloud or Vimeo", for hints and errors. */
+export function providerNames(providers: MediaProvider[]): string {
+  const names = providers.map((provider) => provider.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names.join('');
+}
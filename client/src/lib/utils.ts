@@ -1,19 +1,5 @@
-export function isValidYouTubeUrl(url: string): boolean {
-  const patterns = [
-    /^(https?:\/\/)?(www\.)?youtube\.com\/watch\?v=[\w-]+/,
-    /^(https?:\/\/)?(www\.)?youtu\.be\/[\w-]+/,
-    /^(https?:\/\/)?(www\.)?youtube\.com\/embed\/[\w-]+/,
-  ];
-  return patterns.some((p) => p.test(url));
-}
-
-export function isValidSoundCloudUrl(url: string): boolean {
-  return /^(https?:\/\/)?(www\.)?soundcloud\.com\/[\w-]+\/[\w-]+/.test(url);
-}
-
-export function isValidVideoUrl(url: string): boolean {
-  return isValidYouTubeUrl(url) || isValidSoundCloudUrl(url);
-}
+// Speeds the host can pick for the whole room (must match the server)
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
 
 export function getAvatarColor(username: string): string {
   const colors = [
@@ -35,6 +21,37 @@ export function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Parse "90", "1:30", "1:02:03" or "1m30s" into seconds; null if unparseable.
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})$/);
+  if (clock) {
+    return (Number(clock[1]) || 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  }
+
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units) {
+    return (Number(units[1]) || 0) * 3600 + (Number(units[2]) || 0) * 60 + (Number(units[3]) || 0);
+  }
+
+  return null;
+}
+
+/**
+ * Label for the part of a track that plays, e.g. "1:30–4:00", or null when
+ * the whole track plays.
+ */
+export function formatClipRange(startAt = 0, endAt: number | null = null): string | null {
+  if (!startAt && endAt === null) return null;
+  return `${formatTime(startAt)}–${endAt !== null ? formatTime(endAt) : 'end'}`;
+}
+
 export function timeAgo(date: Date | string): string {
   const now = new Date();
   const past = new Date(date);
@@ -3,22 +3,35 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useSocket } from '../contexts/SocketContext';
 import { useRoom } from '../hooks/useRoom';
+import { useMediaQuery } from '../hooks/useMediaQuery';
 import VideoPlayer from '../components/room/VideoPlayer';
 import NowPlaying from '../components/room/NowPlaying';
 import ChatPanel from '../components/room/ChatPanel';
 import VideoQueue from '../components/room/VideoQueue';
 import UserList from '../components/room/UserList';
 import AddVideoForm from '../components/room/AddVideoForm';
+import SyncHealthPanel from '../components/room/SyncHealthPanel';
+import RoomSettingsModal from '../components/room/RoomSettingsModal';
+import ImportDialog from '../components/room/ImportDialog';
+import PlaylistPanel from '../components/room/PlaylistPanel';
+import DjBooth from '../components/room/DjBooth';
+import PlayHistoryPanel from '../components/room/PlayHistoryPanel';
 
 export default function RoomPage() {
   const { slug } = useParams<{ slug: string }>();
   const { user } = useAuth();
-  const { socket, connected } = useSocket();
+  const { socket, connected, serverNow } = useSocket();
   const navigate = useNavigate();
   const [passwordInput, setPasswordInput] = useState('');
   const [showPrivacyPanel, setShowPrivacyPanel] = useState(false);
   const [privacyPassword, setPrivacyPassword] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showSyncHealth, setShowSyncHealth] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [queueTab, setQueueTab] = useState<'queue' | 'history' | 'playlists'>('queue');
+  // Tailwind's lg breakpoint, where the queue moves to the right column
+  const isDesktop = useMediaQuery('(min-width: 1024px)');
 
   const {
     room,
@@ -30,23 +43,50 @@ export default function RoomPage() {
     isHost,
     isModerator,
     canModerate,
+    leaderId,
+    isLeader,
     isPaused,
+    playbackRate,
     mediaSync,
+    syncHealth,
+    nextUp,
+    waitlist,
+    myDjQueue,
+    importResult,
+    playlistResult,
     error,
     passwordRequired,
     sendChat,
     addVideo,
+    addVideos,
+    queuePlaylist,
     vote,
     skipVideo,
     removeVideo,
+    moveVideo,
+    playNext,
+    moveToBottom,
+    react,
     removeUser,
     reportDuration,
     submitPassword,
     togglePrivacy,
     deleteRoom,
     sendMediaUpdate,
+    setPlaybackRate,
     promoteMod,
     demoteMod,
+    takeLeader,
+    giveLeader,
+    sendSyncReport,
+    requestSyncHealth,
+    forceResync,
+    updateSettings,
+    joinWaitlist,
+    leaveWaitlist,
+    moveInWaitlist,
+    removeFromDjQueue,
+    moveInDjQueue,
   } = useRoom(socket, slug || '', user?._id || '');
 
   if (!connected) {
@@ -136,6 +176,52 @@ export default function RoomPage() {
     );
   }
 
+  // Mounted once, in the left column on mobile and the right column on
+  // desktop, so the history and playlist panels only fetch once
+  const queueSection = (
+    <>
+      <div className="flex gap-1 mb-2 shrink-0">
+        {(['queue', 'history', 'playlists'] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setQueueTab(tab)}
+            className={`text-xs px-2 py-1 rounded-lg capitalize transition-colors ${
+              queueTab === tab ? 'bg-purple-500/20 text-purple-300' : 'text-gray-400 hover:bg-gray-800'
+            }`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+      <div className="flex-1 min-h-0">
+        {queueTab === 'queue' ? (
+          <VideoQueue
+            queue={queue}
+            userId={user?._id || ''}
+            canModerate={canModerate}
+            queueMode={room.settings.queueMode}
+            canChangeMode={isHost}
+            onVote={vote}
+            onRemove={removeVideo}
+            onMove={moveVideo}
+            onPlayNext={playNext}
+            onMoveToBottom={moveToBottom}
+            onModeChange={(queueMode) => updateSettings({ queueMode })}
+          />
+        ) : queueTab === 'history' ? (
+          <PlayHistoryPanel slug={room.slug} refreshKey={currentVideo?.startedAt ?? null} onRequeue={addVideo} />
+        ) : (
+          <PlaylistPanel
+            isGuest={!user || user.isAnonymous}
+            currentUrl={currentVideo?.url ?? null}
+            result={playlistResult}
+            onQueue={queuePlaylist}
+          />
+        )}
+      </div>
+    </>
+  );
+
   return (
     <div className="h-[calc(100vh-60px)] flex flex-col overflow-hidden">
       {/* Room header */}
@@ -165,6 +251,26 @@ export default function RoomPage() {
           )}
         </div>
         <div className="flex items-center gap-3">
+          {canModerate && !isLeader && (
+            <button
+              onClick={takeLeader}
+              className="text-xs px-2 py-1 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+              title="Control playback for everyone"
+            >
+              Take lead
+            </button>
+          )}
+          {canModerate && (
+            <button
+              onClick={() => setShowSyncHealth(!showSyncHealth)}
+              className={`text-xs px-2 py-1 rounded-lg transition-colors ${
+                showSyncHealth ? 'bg-purple-500/20 text-purple-300' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+              }`}
+              title="See how far each listener is from the room position"
+            >
+              Sync health
+            </button>
+          )}
           {isHost && (
             <div className="relative">
               <button
@@ -230,6 +336,15 @@ export default function RoomPage() {
               )}
             </div>
           )}
+          {isHost && (
+            <button
+              onClick={() => setShowSettings(true)}
+              className="text-xs px-2 py-1 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+              title="Room settings"
+            >
+              Settings
+            </button>
+          )}
           {isHost && (
             <button
               onClick={() => setShowDeleteConfirm(true)}
@@ -261,51 +376,78 @@ export default function RoomPage() {
         <div className="lg:col-span-2 flex flex-col gap-4 min-h-0 overflow-y-auto">
           <VideoPlayer
             currentVideo={currentVideo}
-            canControl={canModerate}
+            canControl={isLeader}
             isPaused={isPaused}
+            playbackRate={playbackRate}
             mediaSync={mediaSync}
+            nextUp={nextUp}
+            crossfadeSeconds={room.settings.crossfadeSeconds}
             onDuration={reportDuration}
             onSendMediaUpdate={sendMediaUpdate}
+            onPlaybackRateChange={setPlaybackRate}
+            onSyncReport={sendSyncReport}
+            serverNow={serverNow}
           />
-          <NowPlaying currentVideo={currentVideo} canModerate={canModerate} onSkip={skipVideo} />
-          <AddVideoForm onAdd={addVideo} />
-
-          {/* Queue - visible on mobile, hidden on desktop (shown in right column) */}
-          <div className="lg:hidden">
-            <VideoQueue
-              queue={queue}
+          <NowPlaying
+            currentVideo={currentVideo}
+            userId={user?._id || ''}
+            canModerate={canModerate}
+            playbackRate={playbackRate}
+            onSkip={skipVideo}
+            onRateChange={setPlaybackRate}
+            onReact={react}
+          />
+          <AddVideoForm settings={room.settings} onAdd={addVideo} onImport={() => setShowImport(true)} />
+          {room.settings.queueMode === 'booth' && (
+            <DjBooth
+              currentVideo={currentVideo}
+              waitlist={waitlist}
+              myQueue={myDjQueue}
               userId={user?._id || ''}
               canModerate={canModerate}
-              onVote={vote}
-              onRemove={removeVideo}
+              onJoin={joinWaitlist}
+              onLeave={leaveWaitlist}
+              onMoveDj={moveInWaitlist}
+              onRemoveTrack={removeFromDjQueue}
+              onMoveTrack={moveInDjQueue}
             />
-          </div>
+          )}
+
+          {/* Queue - left column on mobile */}
+          {!isDesktop && <div>{queueSection}</div>}
         </div>
 
         {/* Right column: Chat + Users + Queue (desktop) */}
         <div className="flex flex-col gap-4 min-h-0 overflow-hidden">
+          {canModerate && showSyncHealth && (
+            <SyncHealthPanel
+              entries={syncHealth}
+              leaderId={leaderId}
+              onRefresh={requestSyncHealth}
+              onResync={forceResync}
+            />
+          )}
           <UserList
             users={users}
             hostId={room.creatorId}
             currentUserId={user?._id || ''}
             moderators={moderators}
+            leaderId={leaderId}
             isHost={isHost}
+            isLeader={isLeader}
             canModerate={canModerate}
             onRemoveUser={removeUser}
             onPromoteMod={promoteMod}
             onDemoteMod={demoteMod}
+            onGiveLeader={giveLeader}
           />
 
-          {/* Queue - hidden on mobile, visible on desktop */}
-          <div className="hidden lg:flex flex-col flex-1 min-h-0">
-            <VideoQueue
-              queue={queue}
-              userId={user?._id || ''}
-              canModerate={canModerate}
-              onVote={vote}
-              onRemove={removeVideo}
-            />
-          </div>
+          {/* Queue - right column on desktop */}
+          {isDesktop && (
+            <div className="flex flex-col flex-1 min-h-0">
+              {queueSection}
+            </div>
+          )}
 
           <div className="flex-1 min-h-0 lg:flex-none lg:h-80">
             <ChatPanel messages={messages} onSend={sendChat} />
@@ -313,6 +455,22 @@ export default function RoomPage() {
         </div>
       </div>
 
+      <ImportDialog
+        isOpen={showImport}
+        result={importResult}
+        onImport={addVideos}
+        onClose={() => setShowImport(false)}
+      />
+
+      {isHost && (
+        <RoomSettingsModal
+          isOpen={showSettings}
+          settings={room.settings}
+          onClose={() => setShowSettings(false)}
+          onUpdate={updateSettings}
+        />
+      )}
+
       {/* Delete room confirmation modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
@@ -0,0 +1,38 @@
+import { Server } from 'socket.io';
+import { createClient } from 'redis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createLocalAdapter } from '../socket/localAdapter';
+
+/**
+ * Attach the Socket.IO adapter selected by SOCKET_ADAPTER:
+ *   - "redis": cross-instance broadcasts through REDIS_URL (multi-instance deploys)
+ *   - "local": in-process cluster stand-in (several servers in one process)
+ *   - unset:   default single-process adapter
+ */
+export async function configureSocketAdapter(io: Server): Promise<void> {
+  const kind = process.env.SOCKET_ADAPTER;
+
+  if (kind === 'redis') {
+    const url = process.env.REDIS_URL || 'redis://localhost:6379';
+    const pubClient = createClient({ url });
+    const subClient = pubClient.duplicate();
+
+    pubClient.on('error', (err) => console.error('[Redis] Pub client error:', err));
+    subClient.on('error', (err) => console.error('[Redis] Sub client error:', err));
+
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    io.adapter(createAdapter(pubClient, subClient));
+    console.log('[Socket] Using Redis adapter');
+    return;
+  }
+
+  if (kind === 'local') {
+    io.adapter(createLocalAdapter());
+    console.log('[Socket] Using local cluster adapter');
+    return;
+  }
+
+  if (kind) {
+    console.warn(`[Socket] Unknown SOCKET_ADAPTER "${kind}", using default adapter`);
+  }
+}
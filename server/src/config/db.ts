@@ -1,7 +1,9 @@
 import mongoose from 'mongoose';
+import { enableDbMetrics } from '../utils/dbMetrics';
 
 export async function connectDB(): Promise<void> {
   const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017/plugdj';
+  enableDbMetrics();
 
   try {
     await mongoose.connect(uri);
@@ -8,10 +8,17 @@ import express from 'express';
 import cors from 'cors';
 import http from 'http';
 import { connectDB } from './config/db';
+import { configureSocketAdapter } from './config/adapter';
 import { initSocket } from './socket';
 import authRoutes from './routes/auth';
 import roomRoutes from './routes/rooms';
+import playlistRoutes from './routes/playlists';
+import mediaRoutes from './routes/media';
 import { getAllRoomCounts } from './socket/roomHandlers';
+import { recoverPlayback, startFailoverMonitor } from './socket/timerService';
+import { flushAllClocks } from './socket/playbackClock';
+import { releaseAllRooms } from './socket/roomOwnership';
+import { getDbMetrics, dbMetricsEnabled } from './utils/dbMetrics';
 
 const app = express();
 const server = http.createServer(app);
@@ -38,25 +45,42 @@ app.use(express.json());
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/rooms', roomRoutes);
+app.use('/api/playlists', playlistRoutes);
+app.use('/api/media', mediaRoutes);
 
 // Health check
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Room counts endpoint (for lobby display)
-app.get('/api/room-counts', (_req, res) => {
-  res.json(getAllRoomCounts());
-});
+// DB operation counters (load measurements), only when switched on
+if (dbMetricsEnabled()) {
+  app.get('/api/metrics', (_req, res) => {
+    res.json({ db: getDbMetrics() });
+  });
+}
 
 // Initialize Socket.io
 const io = initSocket(server);
 
+// Room counts endpoint (for lobby display) — cluster-wide via the adapter
+app.get('/api/room-counts', async (_req, res) => {
+  try {
+    res.json(await getAllRoomCounts(io));
+  } catch (error) {
+    console.error('[Rooms] Counts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Start server
 const PORT = parseInt(process.env.PORT || '3001', 10);
 
 async function start() {
   await connectDB();
+  await configureSocketAdapter(io);
+  await recoverPlayback(io);
+  startFailoverMonitor(io);
 
   server.listen(PORT, '0.0.0.0', () => {
     console.log(`[Server] Running on http://0.0.0.0:${PORT}`);
@@ -64,6 +88,26 @@ async function start() {
   });
 }
 
+// Write out pending playback clocks and hand back room leases before
+// exiting (deploys send SIGTERM), so the next instance recovers at once
+async function shutdown(signal: string) {
+  console.log(`[Server] ${signal} received, flushing playback state`);
+  try {
+    await flushAllClocks();
+  } catch (error) {
+    console.error('[Server] Flush error:', error);
+  }
+  try {
+    await releaseAllRooms(io);
+  } catch (error) {
+    console.error('[Server] Lease release error:', error);
+  }
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 start().catch((error) => {
   console.error('[Server] Failed to start:', error);
   process.exit(1);
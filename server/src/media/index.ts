@@ -0,0 +1,56 @@
+import { MediaProvider } from './types';
+import { youtube } from './providers/youtube';
+import { soundcloud } from './providers/soundcloud';
+import { vimeo } from './providers/vimeo';
+import { dailymotion } from './providers/dailymotion';
+import { twitch } from './providers/twitch';
+import { directFile } from './providers/directFile';
+import { fake } from './providers/fake';
+
+export type { MediaProvider, MediaMetadata, PlayerConfig } from './types';
+export type { JsonFetcher, ClipRange } from './util';
+export { setMetadataFetcher, parseTimestamp, extractClipRange } from './util';
+export { getMetadata, cachedMetadata, rememberDuration, reportedDuration } from './metadataCache';
+
+// Checked in order; the first provider whose pattern matches a URL owns it
+const providers: MediaProvider[] = [youtube, soundcloud, vimeo, dailymotion, twitch, directFile];
+
+// The offline provider is for development and tests only
+if (process.env.NODE_ENV === 'test' || process.env.ENABLE_FAKE_MEDIA === 'true') {
+  providers.push(fake);
+}
+
+/** Add a provider (or replace the one with the same id). */
+export function registerProvider(provider: MediaProvider): void {
+  const index = providers.findIndex((existing) => existing.id === provider.id);
+  if (index === -1) {
+    providers.push(provider);
+  } else {
+    providers[index] = provider;
+  }
+}
+
+export function getProviders(): readonly MediaProvider[] {
+  return providers;
+}
+
+/** The provider that handles `url`, or undefined when none does. */
+export function findProvider(url: string): MediaProvider | undefined {
+  return providers.find((provider) => provider.patterns.some((pattern) => pattern.test(url)));
+}
+
+/** "YouTube, SoundCloud and Vimeo", for error messages. */
+export function supportedProviderNames(): string {
+  const names = providers.map((provider) => provider.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/** What clients need to validate and play each provider's URLs. */
+export function describeProviders() {
+  return providers.map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    patterns: provider.patterns.map((pattern) => ({ source: pattern.source, flags: pattern.flags })),
+    player: provider.player,
+  }));
+}
@@ -0,0 +1,106 @@
+import { MediaInfo, IMediaInfo } from '../models/MediaInfo';
+import { MediaProvider, MediaMetadata } from './types';
+
+// Entries older than this are still served, and refreshed in the background
+export const METADATA_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Media ids with a background refresh in flight on this instance
+const refreshing = new Set<string>();
+
+function toMetadata(info: Pick<IMediaInfo, 'title' | 'duration' | 'author' | 'thumbnailUrl'>): MediaMetadata {
+  return {
+    title: info.title,
+    duration: info.duration,
+    author: info.author,
+    thumbnailUrl: info.thumbnailUrl,
+  };
+}
+
+/**
+ * Ask the provider and store what it says. A duration we already know is
+ * kept when the provider doesn't give one. Null when the provider failed.
+ */
+async function lookUp(provider: MediaProvider, url: string, mediaId: string): Promise<MediaMetadata | null> {
+  const metadata = await provider.fetchMetadata(url);
+  if (!metadata || provider.cacheMetadata === false) return metadata;
+
+  try {
+    const stored = await MediaInfo.findOneAndUpdate(
+      { mediaId },
+      {
+        $set: {
+          provider: provider.id,
+          title: metadata.title,
+          author: metadata.author ?? null,
+          thumbnailUrl: metadata.thumbnailUrl ?? null,
+          fetchedAt: new Date(),
+          ...(metadata.duration > 0 && { duration: metadata.duration }),
+        },
+      },
+      { upsert: true, new: true }
+    );
+    return toMetadata(stored);
+  } catch (error) {
+    // The lookup still counts; it just won't be remembered
+    console.error(`[Media] Failed to cache metadata for ${mediaId}:`, error);
+    return metadata;
+  }
+}
+
+function refreshInBackground(provider: MediaProvider, url: string, mediaId: string): void {
+  if (refreshing.has(mediaId)) return;
+  refreshing.add(mediaId);
+  lookUp(provider, url, mediaId)
+    .catch((error) => console.error(`[Media] Failed to refresh ${mediaId}:`, error))
+    .finally(() => refreshing.delete(mediaId));
+}
+
+/**
+ * Metadata for the media at `url`: from the cache when we have it (stale
+ * entries are refreshed behind the scenes), otherwise from the provider.
+ * Falls back to the provider's generic title, which is not cached, so a
+ * failed lookup is retried on the next submission.
+ */
+export async function getMetadata(provider: MediaProvider, url: string, mediaId: string): Promise<MediaMetadata> {
+  if (provider.cacheMetadata !== false) {
+    const cached = await MediaInfo.findOne({ mediaId }).catch((error) => {
+      console.error(`[Media] Cache read failed for ${mediaId}:`, error);
+      return null;
+    });
+    if (cached) {
+      if (Date.now() - cached.fetchedAt.getTime() > METADATA_MAX_AGE_MS) {
+        refreshInBackground(provider, url, mediaId);
+      }
+      return toMetadata(cached);
+    }
+  }
+
+  return (await lookUp(provider, url, mediaId)) ?? { title: provider.fallbackTitle, duration: 0 };
+}
+
+/** Whatever the cache already holds for these media ids, without asking any provider. */
+export async function cachedMetadata(mediaIds: string[]): Promise<Map<string, MediaMetadata>> {
+  const known = new Map<string, MediaMetadata>();
+  if (mediaIds.length === 0) return known;
+
+  const entries = await MediaInfo.find({ mediaId: { $in: mediaIds } });
+  for (const entry of entries) known.set(entry.mediaId, toMetadata(entry));
+  return known;
+}
+
+/**
+ * Keep a duration several listeners agreed on, for media whose provider
+ * doesn't say. A later agreement replaces it.
+ */
+export async function rememberDuration(mediaId: string, duration: number): Promise<void> {
+  await MediaInfo.updateOne({ mediaId }, { $set: { reportedDuration: duration } });
+}
+
+/**
+ * The duration listeners agreed on in an earlier play, or 0 when there is
+ * none. Only a starting guess: rooms still settle it from their own reports.
+ */
+export async function reportedDuration(mediaId: string): Promise<number> {
+  const entry = await MediaInfo.findOne({ mediaId }).select('reportedDuration');
+  return entry?.reportedDuration || 0;
+}
@@ -0,0 +1,32 @@
+import { MediaProvider } from '../types';
+import { matchId, fetchJson } from '../util';
+
+const patterns = [
+  /^(https?:\/\/)?(www\.)?dailymotion\.com\/video\/([a-zA-Z0-9]+)/,
+  /^(https?:\/\/)?(www\.)?dai\.ly\/([a-zA-Z0-9]+)/,
+];
+
+export const dailymotion: MediaProvider = {
+  id: 'dailymotion',
+  name: 'Dailymotion',
+  patterns,
+  extractId: (url) => matchId(patterns, url),
+  async fetchMetadata(url) {
+    // The public data API answers without a key
+    const id = matchId(patterns, url);
+    const data = id
+      ? await fetchJson<{ title?: string; duration?: number; 'owner.screenname'?: string; thumbnail_url?: string }>(
+          `https://api.dailymotion.com/video/${id}?fields=title,duration,owner.screenname,thumbnail_url`
+        )
+      : null;
+    if (!data?.title) return null;
+    return {
+      title: data.title,
+      duration: data.duration || 0,
+      author: data['owner.screenname'] || null,
+      thumbnailUrl: data.thumbnail_url || null,
+    };
+  },
+  fallbackTitle: 'Dailymotion Video',
+  player: { player: 'dailymotion' },
+};
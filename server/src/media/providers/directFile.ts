@@ -0,0 +1,28 @@
+import { MediaProvider } from '../types';
+
+// Plain links to audio and video files the browser can play itself
+const pattern = /^https?:\/\/[^\s?#]+\.(mp3|mp4|m4a|ogg|oga|ogv)(\?[^\s#]*)?(#.*)?$/i;
+
+function fileName(url: string): string | null {
+  try {
+    const name = new URL(url).pathname.split('/').pop() || '';
+    return decodeURIComponent(name).replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export const directFile: MediaProvider = {
+  id: 'file',
+  name: 'MP3/MP4/OGG files',
+  patterns: [pattern],
+  // The address is the identity; the fragment is only a start time
+  extractId: (url) => (pattern.test(url) ? url.replace(/#.*$/, '') : null),
+  // Fetching the file to read tags would mean downloading it; the player reports the length
+  async fetchMetadata(url) {
+    const title = fileName(url);
+    return title ? { title, duration: 0 } : null;
+  },
+  fallbackTitle: 'Audio file',
+  player: { player: 'file' },
+};
@@ -0,0 +1,24 @@
+import { MediaProvider } from '../types';
+
+// fake://<id>?title=Some%20Song&duration=180 — resolves without the network,
+// for development and automated tests. Clients can't play these.
+const pattern = /^fake:\/\/([\w-]+)/;
+
+export const fake: MediaProvider = {
+  id: 'fake',
+  name: 'Fake (offline)',
+  patterns: [pattern],
+  extractId: (url) => url.match(pattern)?.[1] ?? null,
+  async fetchMetadata(url) {
+    const query = new URLSearchParams(url.split('?')[1] || '');
+    const duration = Number(query.get('duration'));
+    return {
+      title: query.get('title') || `Fake track ${url.match(pattern)?.[1] ?? ''}`.trim(),
+      duration: Number.isFinite(duration) && duration > 0 ? duration : 0,
+    };
+  },
+  fallbackTitle: 'Fake track',
+  // The title and length ride in the URL, so a cache keyed by id would pin the first ones seen
+  cacheMetadata: false,
+  player: null,
+};
@@ -0,0 +1,19 @@
+import { MediaProvider } from '../types';
+import { fetchOEmbed, fromOEmbed } from '../util';
+
+const pattern = /^(https?:\/\/)?(www\.)?soundcloud\.com\/([\w-]+)\/([\w-]+)/;
+
+export const soundcloud: MediaProvider = {
+  id: 'soundcloud',
+  name: 'SoundCloud',
+  patterns: [pattern],
+  extractId(url) {
+    const match = url.match(pattern);
+    return match ? `${match[3].toLowerCase()}/${match[4].toLowerCase()}` : null;
+  },
+  async fetchMetadata(url) {
+    return fromOEmbed(await fetchOEmbed('https://soundcloud.com/oembed', url));
+  },
+  fallbackTitle: 'SoundCloud Track',
+  player: { player: 'soundcloud' },
+};
@@ -0,0 +1,18 @@
+import { MediaProvider } from '../types';
+import { matchId } from '../util';
+
+// Past broadcasts only; live channels have no end for the queue to wait for
+const patterns = [/^(https?:\/\/)?(www\.|m\.)?twitch\.tv\/videos\/(\d+)/];
+
+export const twitch: MediaProvider = {
+  id: 'twitch',
+  name: 'Twitch',
+  patterns,
+  extractId: (url) => matchId(patterns, url),
+  // Twitch has no keyless metadata API; the client reports the length
+  async fetchMetadata(url) {
+    return { title: `Twitch VOD ${matchId(patterns, url) ?? ''}`.trim(), duration: 0 };
+  },
+  fallbackTitle: 'Twitch VOD',
+  player: { player: 'twitch' },
+};
@@ -0,0 +1,21 @@
+import { MediaProvider } from '../types';
+import { matchId, fetchOEmbed, fromOEmbed } from '../util';
+
+const patterns = [
+  /^(https?:\/\/)?(www\.)?vimeo\.com\/(\d+)/,
+  /^(https?:\/\/)?player\.vimeo\.com\/video\/(\d+)/,
+];
+
+export const vimeo: MediaProvider = {
+  id: 'vimeo',
+  name: 'Vimeo',
+  patterns,
+  extractId: (url) => matchId(patterns, url),
+  async fetchMetadata(url) {
+    // Vimeo's oEmbed includes the length
+    const data = await fetchOEmbed('https://vimeo.com/api/oembed.json', url);
+    return fromOEmbed(data, Math.round(data?.duration || 0));
+  },
+  fallbackTitle: 'Vimeo Video',
+  player: { player: 'vimeo' },
+};
@@ -0,0 +1,32 @@
+import { MediaProvider } from '../types';
+import { matchId, fetchOEmbed, fromOEmbed, extractClipRange } from '../util';
+
+// Every link shape that names one video: desktop, mobile and Music hosts,
+// watch pages (v= anywhere in the query), embeds, Shorts, live pages and
+// short links. Video ids are always 11 characters.
+const patterns = [
+  /^(?:https?:\/\/)?(?:(?:www|m|music)\.)?youtube\.com\/(?:watch\/?\?(?:[^#]*&)?v=|embed\/|shorts\/|live\/|v\/|e\/)([\w-]{11})(?![\w-])/i,
+  /^(?:https?:\/\/)?(?:www\.)?youtube-nocookie\.com\/embed\/([\w-]{11})(?![\w-])/i,
+  /^(?:https?:\/\/)?(?:www\.)?youtu\.be\/([\w-]{11})(?![\w-])/i,
+];
+
+export const youtube: MediaProvider = {
+  id: 'youtube',
+  name: 'YouTube',
+  patterns,
+  extractId: (url) => matchId(patterns, url),
+  // One watch URL per video; playlist, index, share and tracking parameters
+  // are dropped and only the start time is kept
+  normalizeUrl(url) {
+    const id = matchId(patterns, url);
+    if (!id) return null;
+    const { startAt } = extractClipRange(url);
+    return `https://www.youtube.com/watch?v=${id}${startAt > 0 ? `&t=${Math.floor(startAt)}s` : ''}`;
+  },
+  async fetchMetadata(url) {
+    // oEmbed doesn't give duration; the client will report it
+    return fromOEmbed(await fetchOEmbed('https://www.youtube.com/oembed', url));
+  },
+  fallbackTitle: 'YouTube Video',
+  player: { player: 'youtube', options: { playerVars: { modestbranding: 1 } } },
+};
@@ -0,0 +1,29 @@
+export interface MediaMetadata {
+  title: string;
+  duration: number; // seconds; 0 when the provider doesn't say (clients report it)
+  author?: string | null; // channel or uploader
+  thumbnailUrl?: string | null;
+}
+
+// How clients should play a provider's media with react-player
+export interface PlayerConfig {
+  player: string; // react-player's name for the player, e.g. "youtube" or "file"
+  options?: Record<string, unknown>; // passed as config[player]
+}
+
+export interface MediaProvider {
+  id: string; // prefix of canonical ids, e.g. "youtube"
+  name: string; // shown to users, e.g. "YouTube"
+  // URLs this provider accepts; also sent to clients for validation, so
+  // keep them to syntax JavaScript on both sides understands
+  patterns: RegExp[];
+  /** The provider's own id for the media at `url`, or null when it isn't one of ours. */
+  extractId(url: string): string | null;
+  /** The one URL to store for the media at `url`; providers without one keep URLs as given. */
+  normalizeUrl?(url: string): string | null;
+  /** Title, length and artwork from the provider; null when it can't be reached. Never throws. */
+  fetchMetadata(url: string): Promise<MediaMetadata | null>;
+  fallbackTitle: string; // used when fetchMetadata comes back empty; never cached
+  cacheMetadata?: boolean; // false to look up every time; defaults to true
+  player: PlayerConfig | null; // null when clients can't play it (the fake provider)
+}
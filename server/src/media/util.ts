@@ -0,0 +1,113 @@
+import { MediaMetadata } from './types';
+
+/** The first pattern's captured id from `url`, or null when none match. */
+export function matchId(patterns: RegExp[], url: string): string | null {
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[match.length - 1];
+  }
+  return null;
+}
+
+/** Fetches one JSON document for a metadata lookup; null (or a throw) means failure. */
+export type JsonFetcher = (url: string) => Promise<unknown>;
+
+async function httpFetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  return response.ok ? response.json() : null;
+}
+
+let jsonFetcher: JsonFetcher = httpFetchJson;
+
+/**
+ * Replace the HTTP requests behind every provider lookup, e.g. with a local
+ * stub in development or tests. Pass null to go back to the network.
+ */
+export function setMetadataFetcher(fetcher: JsonFetcher | null): void {
+  jsonFetcher = fetcher ?? httpFetchJson;
+}
+
+/** GET a JSON document, or null on any failure (network, status, parse). */
+export async function fetchJson<T>(url: string): Promise<T | null> {
+  try {
+    return ((await jsonFetcher(url)) ?? null) as T | null;
+  } catch {
+    return null;
+  }
+}
+
+export interface OEmbedResponse {
+  title?: string;
+  duration?: number;
+  author_name?: string;
+  thumbnail_url?: string;
+}
+
+/** Look up a page through the provider's oEmbed endpoint (no API key needed). */
+export function fetchOEmbed(endpoint: string, url: string): Promise<OEmbedResponse | null> {
+  const separator = endpoint.includes('?') ? '&' : '?';
+  return fetchJson(`${endpoint}${separator}url=${encodeURIComponent(url)}&format=json`);
+}
+
+/** Title, author and thumbnail from an oEmbed answer, or null when there was none. */
+export function fromOEmbed(data: OEmbedResponse | null, duration = 0): MediaMetadata | null {
+  if (!data?.title) return null;
+  return {
+    title: data.title,
+    duration,
+    author: data.author_name || null,
+    thumbnailUrl: data.thumbnail_url || null,
+  };
+}
+
+export interface ClipRange {
+  startAt: number;
+  endAt: number | null;
+}
+
+/**
+ * Parse a timestamp as used in media URLs and forms: "90", "90s", "1m30s",
+ * "1h2m3s" or "1:30" / "1:02:03". Returns seconds, or null if unparseable.
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})$/);
+  if (clock) {
+    const [, h, m, s] = clock;
+    return (Number(h) || 0) * 3600 + Number(m) * 60 + Number(s);
+  }
+
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units) {
+    const [, h, m, s] = units;
+    return (Number(h) || 0) * 3600 + (Number(m) || 0) * 60 + (Number(s) || 0);
+  }
+
+  return null;
+}
+
+/**
+ * Read a start/end offset from a submitted URL: YouTube's `t=`/`start=` and
+ * `end=` query parameters, or a `#t=` fragment (SoundCloud, YouTube).
+ */
+export function extractClipRange(url: string): ClipRange {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//.test(url) ? url : `https://${url}`);
+  } catch {
+    return { startAt: 0, endAt: null };
+  }
+
+  const fragment = new URLSearchParams(parsed.hash.replace(/^#/, ''));
+  const start = parsed.searchParams.get('t') ?? parsed.searchParams.get('start') ?? fragment.get('t');
+  const end = parsed.searchParams.get('end');
+
+  return {
+    startAt: (start && parseTimestamp(start)) || 0,
+    endAt: (end && parseTimestamp(end)) || null,
+  };
+}
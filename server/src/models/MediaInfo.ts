@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * What we know about one piece of media, shared by every room and keyed by
+ * its canonical id, so re-submissions don't go back to the provider.
+ */
+export interface IMediaInfo extends Document {
+  mediaId: string; // canonical provider id, see canonicalMediaId
+  provider: string;
+  title: string;
+  author: string | null; // channel or uploader
+  thumbnailUrl: string | null;
+  duration: number; // seconds, from the provider; 0 when unknown
+  reportedDuration: number; // seconds listeners in some room agreed on; 0 when none
+  fetchedAt: Date; // last successful lookup
+}
+
+const mediaInfoSchema = new Schema<IMediaInfo>({
+  mediaId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  provider: { type: String, required: true },
+  title: { type: String, required: true },
+  author: { type: String, default: null },
+  thumbnailUrl: { type: String, default: null },
+  duration: { type: Number, default: 0 },
+  reportedDuration: { type: Number, default: 0 },
+  fetchedAt: { type: Date, default: Date.now },
+});
+
+mediaInfoSchema.set('toJSON', {
+  transform(_doc, ret: Record<string, any>) {
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const MediaInfo = mongoose.model<IMediaInfo>('MediaInfo', mediaInfoSchema);
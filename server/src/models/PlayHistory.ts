@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * One track a room played. Written when the queue advances to it and
+ * completed with how it was received when the queue moves on again.
+ */
+export interface IPlayHistory extends Document {
+  roomId: mongoose.Types.ObjectId;
+  mediaId: string; // canonical provider id, see canonicalMediaId
+  url: string;
+  title: string;
+  duration: number;
+  startAt: number;
+  endAt: number | null;
+  addedBy: {
+    _id: string;
+    username: string;
+  };
+  playedAt: Date;
+  endedAt: Date | null; // null while playing (or if the server stopped mid-track)
+  skipped: boolean; // cut short by a moderator, the meh threshold or the length limit
+  woots: number;
+  mehs: number;
+  grabs: number;
+  autoPicked: boolean; // played by fallback autoplay rather than submitted
+}
+
+const playHistorySchema = new Schema<IPlayHistory>({
+  roomId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Room',
+    required: true,
+  },
+  mediaId: {
+    type: String,
+    required: true,
+  },
+  url: { type: String, required: true },
+  title: { type: String, required: true },
+  duration: { type: Number, default: 0 },
+  startAt: { type: Number, default: 0 },
+  endAt: { type: Number, default: null },
+  addedBy: {
+    _id: { type: String, required: true },
+    username: { type: String, required: true },
+  },
+  playedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  endedAt: { type: Date, default: null },
+  skipped: { type: Boolean, default: false },
+  woots: { type: Number, default: 0 },
+  mehs: { type: Number, default: 0 },
+  grabs: { type: Number, default: 0 },
+  autoPicked: { type: Boolean, default: false },
+});
+
+// Newest-first listing per room, and "when did this room last play X"
+playHistorySchema.index({ roomId: 1, playedAt: -1 });
+playHistorySchema.index({ roomId: 1, mediaId: 1, playedAt: -1 });
+
+playHistorySchema.set('toJSON', {
+  transform(_doc, ret: Record<string, any>) {
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const PlayHistory = mongoose.model<IPlayHistory>('PlayHistory', playHistorySchema);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const MAX_PLAYLISTS_PER_USER = 50;
+export const MAX_PLAYLIST_TRACKS = 500;
+
+export interface IPlaylistTrack {
+  _id?: mongoose.Types.ObjectId;
+  url: string;
+  title: string;
+  duration: number; // seconds, 0 when unknown
+  startAt: number;
+  endAt: number | null;
+  addedAt: Date;
+}
+
+// A user's own list of tracks, kept between sessions and queued into rooms
+export interface IPlaylist extends Document {
+  _id: mongoose.Types.ObjectId;
+  ownerId: mongoose.Types.ObjectId;
+  name: string;
+  tracks: IPlaylistTrack[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const playlistTrackSchema = new Schema<IPlaylistTrack>({
+  url: { type: String, required: true },
+  title: { type: String, required: true },
+  duration: { type: Number, default: 0 },
+  startAt: { type: Number, default: 0 },
+  endAt: { type: Number, default: null },
+  addedAt: { type: Date, default: Date.now },
+});
+
+const playlistSchema = new Schema<IPlaylist>(
+  {
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      minlength: 1,
+      maxlength: 50,
+    },
+    tracks: {
+      type: [playlistTrackSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+playlistSchema.set('toJSON', {
+  transform(_doc, ret: Record<string, any>) {
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const Playlist = mongoose.model<IPlaylist>('Playlist', playlistSchema);
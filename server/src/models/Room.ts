@@ -1,26 +1,94 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// How the queue picks what plays next: add order, net votes, round robin by
+// submitter, or a DJ booth where waitlisted DJs take turns from personal queues
+export const QUEUE_MODES = ['fifo', 'votes', 'fair', 'booth'] as const;
+export type QueueMode = (typeof QUEUE_MODES)[number];
+
+// What plays when the queue runs dry: nothing, the host's chosen playlist,
+// a shuffle of the room's best-liked plays, or the room's recent plays again
+export const FALLBACK_MODES = ['off', 'playlist', 'history', 'repeat'] as const;
+export type FallbackMode = (typeof FALLBACK_MODES)[number];
+
 export interface IVideoItem {
-  url: string;
+  _id?: mongoose.Types.ObjectId; // stable id clients use to address the item
+  url: string; // normalized, see normalizeUrl
+  providerId: string | null; // provider-qualified media id, see canonicalMediaId (null on old items)
   title: string;
+  author: string | null; // channel or uploader, when the provider says
+  thumbnailUrl: string | null;
   duration: number; // seconds
+  startAt: number;   // seconds into the media where playback begins
+  endAt: number | null; // seconds into the media where playback stops (null = the end)
   addedBy: {
     _id: string;
     username: string;
   };
   upvotes: string[];   // userIds
   downvotes: string[]; // userIds
+  addedAt: Date;
+}
+
+// One client's measurement of the current track's length
+export interface IDurationReport {
+  userId: string;
+  duration: number; // seconds
+  trusted: boolean; // reported by the submitter or a host/moderator
 }
 
 export interface ICurrentVideo {
   url: string;
+  providerId: string | null;
   title: string;
+  author: string | null;
+  thumbnailUrl: string | null;
   duration: number;
+  startAt: number;
+  endAt: number | null;
   addedBy: {
     _id: string;
     username: string;
   };
   startedAt: Date;
+  isPaused: boolean;
+  pausedAt: number; // seconds elapsed when paused
+  playbackRate: number; // 1 = normal speed
+  durationSettled: boolean; // duration agreed on; further reports are ignored
+  durationReports: IDurationReport[];
+  autoPaused: boolean; // paused because the room emptied; resumes on rejoin
+  woots: string[]; // userIds
+  mehs: string[];  // userIds
+  grabs: string[]; // userIds
+  mehSkipped: boolean; // the meh threshold already triggered a skip
+  historyId: mongoose.Types.ObjectId | null; // this play's PlayHistory entry
+  autoPicked: boolean; // chosen by fallback autoplay; gives way to the next submission
+}
+
+// A user waiting for their turn in the DJ booth
+export interface IWaitlistEntry {
+  userId: string;
+  username: string;
+}
+
+// A DJ's own ordered list of tracks to play when their turn comes
+export interface IDjQueue {
+  userId: string;
+  items: IVideoItem[];
+}
+
+// Host-configurable room behaviour
+export interface IRoomSettings {
+  autoPauseWhenEmpty: boolean;
+  crossfadeSeconds: number; // overlap between tracks; 0 = hard cut
+  queueMode: QueueMode;
+  mehSkipFraction: number; // skip once more than this share of listeners meh; 0 = never
+  maxQueuedPerUser: number; // tracks one user may have waiting; 0 = no limit
+  maxTrackSeconds: number; // longest track allowed; 0 = no limit
+  submitCooldownSeconds: number; // wait between one user's submissions
+  guestsCannotQueue: boolean;
+  repeatWindowMinutes: number; // a track can't be queued again this soon after playing; 0 = off
+  fallbackMode: FallbackMode;
+  fallbackPlaylistId: string | null; // one of the host's playlists, for the 'playlist' mode
 }
 
 export interface IRoom extends Document {
@@ -29,38 +97,109 @@ export interface IRoom extends Document {
   slug: string;
   creatorId: mongoose.Types.ObjectId;
   moderators: string[]; // userIds with moderator privileges
+  leaderId: string | null; // host/mod whose player drives playback
   isPrivate: boolean;
   password?: string; // bcrypt-hashed
   currentVideo: ICurrentVideo | null;
   queue: IVideoItem[];
+  waitlist: IWaitlistEntry[]; // booth rotation, next DJ first
+  djQueues: IDjQueue[];
+  settings: IRoomSettings;
+  lastSubmissionAt: Map<string, Date>; // userId -> last time they queued, for cooldowns
+  fallbackPosition: number; // next track of the fallback playlist or repeat cycle
   createdAt: Date;
 }
 
 const videoItemSchema = new Schema<IVideoItem>(
   {
     url: { type: String, required: true },
+    providerId: { type: String, default: null },
     title: { type: String, required: true },
+    author: { type: String, default: null },
+    thumbnailUrl: { type: String, default: null },
     duration: { type: Number, default: 0 },
+    startAt: { type: Number, default: 0 },
+    endAt: { type: Number, default: null },
     addedBy: {
       _id: { type: String, required: true },
       username: { type: String, required: true },
     },
     upvotes: [{ type: String }],
     downvotes: [{ type: String }],
+    addedAt: { type: Date, default: Date.now },
   },
   { _id: true }
 );
 
+const durationReportSchema = new Schema<IDurationReport>(
+  {
+    userId: { type: String, required: true },
+    duration: { type: Number, required: true },
+    trusted: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
 const currentVideoSchema = new Schema<ICurrentVideo>(
   {
     url: { type: String, required: true },
+    providerId: { type: String, default: null },
     title: { type: String, required: true },
+    author: { type: String, default: null },
+    thumbnailUrl: { type: String, default: null },
     duration: { type: Number, default: 0 },
+    startAt: { type: Number, default: 0 },
+    endAt: { type: Number, default: null },
     addedBy: {
       _id: { type: String, required: true },
       username: { type: String, required: true },
     },
     startedAt: { type: Date, default: Date.now },
+    isPaused: { type: Boolean, default: false },
+    pausedAt: { type: Number, default: 0 },
+    playbackRate: { type: Number, default: 1 },
+    durationSettled: { type: Boolean, default: false },
+    durationReports: { type: [durationReportSchema], default: [] },
+    autoPaused: { type: Boolean, default: false },
+    woots: [{ type: String }],
+    mehs: [{ type: String }],
+    grabs: [{ type: String }],
+    mehSkipped: { type: Boolean, default: false },
+    historyId: { type: Schema.Types.ObjectId, default: null },
+    autoPicked: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const waitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    userId: { type: String, required: true },
+    username: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const djQueueSchema = new Schema<IDjQueue>(
+  {
+    userId: { type: String, required: true },
+    items: { type: [videoItemSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const roomSettingsSchema = new Schema<IRoomSettings>(
+  {
+    autoPauseWhenEmpty: { type: Boolean, default: true },
+    crossfadeSeconds: { type: Number, default: 0, min: 0, max: 12 },
+    queueMode: { type: String, enum: QUEUE_MODES, default: 'fifo' },
+    mehSkipFraction: { type: Number, default: 0, min: 0, max: 1 },
+    maxQueuedPerUser: { type: Number, default: 0, min: 0 },
+    maxTrackSeconds: { type: Number, default: 0, min: 0 },
+    submitCooldownSeconds: { type: Number, default: 0, min: 0 },
+    guestsCannotQueue: { type: Boolean, default: false },
+    repeatWindowMinutes: { type: Number, default: 0, min: 0 },
+    fallbackMode: { type: String, enum: FALLBACK_MODES, default: 'off' },
+    fallbackPlaylistId: { type: String, default: null },
   },
   { _id: false }
 );
@@ -89,6 +228,10 @@ const roomSchema = new Schema<IRoom>(
       type: [String],
       default: [],
     },
+    leaderId: {
+      type: String,
+      default: null,
+    },
     isPrivate: {
       type: Boolean,
       default: false,
@@ -105,6 +248,27 @@ const roomSchema = new Schema<IRoom>(
       type: [videoItemSchema],
       default: [],
     },
+    waitlist: {
+      type: [waitlistEntrySchema],
+      default: [],
+    },
+    djQueues: {
+      type: [djQueueSchema],
+      default: [],
+    },
+    lastSubmissionAt: {
+      type: Map,
+      of: Date,
+      default: () => new Map(),
+    },
+    fallbackPosition: {
+      type: Number,
+      default: 0,
+    },
+    settings: {
+      type: roomSettingsSchema,
+      default: () => ({}),
+    },
   },
   {
     timestamps: true,
@@ -115,6 +279,10 @@ roomSchema.set('toJSON', {
   transform(_doc, ret: Record<string, any>) {
     delete ret.__v;
     delete ret.password; // never expose hashed password
+    if (ret.currentVideo) delete ret.currentVideo.durationReports;
+    delete ret.djQueues; // each DJ only sees their own
+    delete ret.lastSubmissionAt;
+    delete ret.fallbackPosition;
     return ret;
   },
 });
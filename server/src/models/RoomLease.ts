@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Ownership of a room's playback timers. Exactly one server instance holds
+ * the lease for a playing room; it must renew it before expiresAt or another
+ * instance takes over.
+ */
+export interface IRoomLease extends Document {
+  slug: string;
+  ownerId: string;
+  expiresAt: Date;
+}
+
+const roomLeaseSchema = new Schema<IRoomLease>({
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  ownerId: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: true,
+  },
+});
+
+export const RoomLease = mongoose.model<IRoomLease>('RoomLease', roomLeaseSchema);
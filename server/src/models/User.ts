@@ -1,11 +1,28 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// A track the user grabbed to keep for later
+export interface ISavedTrack {
+  url: string;
+  title: string;
+  duration: number;
+  savedAt: Date;
+}
+
+// Reactions other listeners gave to tracks this user submitted
+export interface IUserKarma {
+  woots: number;
+  mehs: number;
+  grabs: number;
+}
+
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   username: string;
   passwordHash: string | null;
   isAnonymous: boolean;
   avatarColor: string;
+  karma: IUserKarma;
+  savedTracks: ISavedTrack[];
   createdAt: Date;
 }
 
@@ -20,6 +37,16 @@ function randomAvatarColor(): string {
   return AVATAR_COLORS[Math.floor(Math.random() * AVATAR_COLORS.length)];
 }
 
+const savedTrackSchema = new Schema<ISavedTrack>(
+  {
+    url: { type: String, required: true },
+    title: { type: String, required: true },
+    duration: { type: Number, default: 0 },
+    savedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const userSchema = new Schema<IUser>(
   {
     username: {
@@ -42,6 +69,15 @@ const userSchema = new Schema<IUser>(
       type: String,
       default: randomAvatarColor,
     },
+    karma: {
+      woots: { type: Number, default: 0 },
+      mehs: { type: Number, default: 0 },
+      grabs: { type: Number, default: 0 },
+    },
+    savedTracks: {
+      type: [savedTrackSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -51,6 +87,8 @@ const userSchema = new Schema<IUser>(
 userSchema.set('toJSON', {
   transform(_doc, ret: Record<string, any>) {
     delete ret.passwordHash;
+    // Fetched separately; can grow long
+    delete ret.savedTracks;
     delete ret.__v;
     return ret;
   },
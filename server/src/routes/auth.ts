@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { User } from '../models/User';
-import { signToken } from '../middleware/auth';
+import { signToken, authMiddleware } from '../middleware/auth';
 
 const router = Router();
 
@@ -112,4 +112,20 @@ router.post('/anonymous', async (_req: Request, res: Response) => {
   }
 });
 
+// GET /api/auth/saved — tracks the current user grabbed, newest first
+router.get('/saved', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.userId).select('savedTracks');
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json([...user.savedTracks].reverse());
+  } catch (error) {
+    console.error('[Auth] Saved tracks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
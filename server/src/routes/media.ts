@@ -0,0 +1,11 @@
+import { Router, Request, Response } from 'express';
+import { describeProviders } from '../media';
+
+const router = Router();
+
+// GET /api/media/providers — supported media sites, their URL patterns and player settings
+router.get('/providers', (_req: Request, res: Response) => {
+  res.json(describeProviders());
+});
+
+export default router;
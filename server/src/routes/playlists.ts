@@ -0,0 +1,219 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Playlist, IPlaylist, MAX_PLAYLISTS_PER_USER, MAX_PLAYLIST_TRACKS } from '../models/Playlist';
+import { authMiddleware } from '../middleware/auth';
+import {
+  isValidVideoUrl,
+  fetchVideoInfo,
+  resolveClipRange,
+  canonicalMediaId,
+} from '../utils/videoValidator';
+import { supportedProviderNames } from '../media';
+
+const router = Router();
+
+// Guest accounts are thrown away, so they don't get a library
+function registeredOnly(req: Request, res: Response, next: NextFunction): void {
+  if (req.user!.isAnonymous) {
+    res.status(403).json({ error: 'Sign up to save playlists' });
+    return;
+  }
+  next();
+}
+
+router.use(authMiddleware, registeredOnly);
+
+function validName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim();
+  return trimmed.length >= 1 && trimmed.length <= 50 ? trimmed : null;
+}
+
+// The requester's playlist, or null after sending a 404
+async function findOwnPlaylist(req: Request, res: Response): Promise<IPlaylist | null> {
+  const playlist = mongoose.isValidObjectId(req.params.id)
+    ? await Playlist.findOne({ _id: req.params.id, ownerId: req.user!.userId })
+    : null;
+  if (!playlist) {
+    res.status(404).json({ error: 'Playlist not found' });
+  }
+  return playlist;
+}
+
+// GET /api/playlists — the current user's playlists, most recently changed first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const playlists = await Playlist.find({ ownerId: req.user!.userId }).sort({ updatedAt: -1 });
+    res.json(playlists.map((playlist) => playlist.toJSON()));
+  } catch (error) {
+    console.error('[Playlists] List error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/playlists — create an empty playlist
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const name = validName(req.body.name);
+    if (!name) {
+      res.status(400).json({ error: 'Playlist name must be 1-50 characters' });
+      return;
+    }
+
+    const count = await Playlist.countDocuments({ ownerId: req.user!.userId });
+    if (count >= MAX_PLAYLISTS_PER_USER) {
+      res.status(400).json({ error: `You can have up to ${MAX_PLAYLISTS_PER_USER} playlists` });
+      return;
+    }
+
+    const playlist = await Playlist.create({ ownerId: req.user!.userId, name });
+    res.status(201).json(playlist.toJSON());
+  } catch (error) {
+    console.error('[Playlists] Create error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/playlists/:id
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const playlist = await findOwnPlaylist(req, res);
+    if (playlist) res.json(playlist.toJSON());
+  } catch (error) {
+    console.error('[Playlists] Get error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/playlists/:id — rename
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const name = validName(req.body.name);
+    if (!name) {
+      res.status(400).json({ error: 'Playlist name must be 1-50 characters' });
+      return;
+    }
+
+    const playlist = await findOwnPlaylist(req, res);
+    if (!playlist) return;
+
+    playlist.name = name;
+    await playlist.save();
+    res.json(playlist.toJSON());
+  } catch (error) {
+    console.error('[Playlists] Rename error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/playlists/:id
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const playlist = await findOwnPlaylist(req, res);
+    if (!playlist) return;
+
+    await playlist.deleteOne();
+    res.status(204).end();
+  } catch (error) {
+    console.error('[Playlists] Delete error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/playlists/:id/tracks — append a track { url, startAt?, endAt? }
+router.post('/:id/tracks', async (req: Request, res: Response) => {
+  try {
+    const url = typeof req.body.url === 'string' ? req.body.url.trim() : '';
+    if (!isValidVideoUrl(url)) {
+      res.status(400).json({ error: `Invalid URL. Supported: ${supportedProviderNames()}` });
+      return;
+    }
+
+    const clip = resolveClipRange(url, req.body.startAt, req.body.endAt);
+    if (typeof clip === 'string') {
+      res.status(400).json({ error: clip });
+      return;
+    }
+
+    const playlist = await findOwnPlaylist(req, res);
+    if (!playlist) return;
+
+    if (playlist.tracks.length >= MAX_PLAYLIST_TRACKS) {
+      res.status(400).json({ error: `Playlists can hold up to ${MAX_PLAYLIST_TRACKS} tracks` });
+      return;
+    }
+    const mediaId = canonicalMediaId(url);
+    if (playlist.tracks.some((track) => canonicalMediaId(track.url) === mediaId)) {
+      res.status(409).json({ error: 'That track is already in this playlist' });
+      return;
+    }
+
+    const info = await fetchVideoInfo(url);
+    playlist.tracks.push({
+      url: info.url,
+      title: info.title,
+      duration: info.duration,
+      startAt: clip.startAt,
+      endAt: clip.endAt,
+      addedAt: new Date(),
+    });
+    await playlist.save();
+    res.status(201).json(playlist.toJSON());
+  } catch (error) {
+    console.error('[Playlists] Add track error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/playlists/:id/tracks/:trackId
+router.delete('/:id/tracks/:trackId', async (req: Request, res: Response) => {
+  try {
+    const playlist = await findOwnPlaylist(req, res);
+    if (!playlist) return;
+
+    const index = playlist.tracks.findIndex((track) => String(track._id) === req.params.trackId);
+    if (index === -1) {
+      res.status(404).json({ error: 'Track not found' });
+      return;
+    }
+
+    playlist.tracks.splice(index, 1);
+    await playlist.save();
+    res.json(playlist.toJSON());
+  } catch (error) {
+    console.error('[Playlists] Remove track error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/playlists/:id/tracks/:trackId — move a track { position }
+router.patch('/:id/tracks/:trackId', async (req: Request, res: Response) => {
+  try {
+    const position = req.body.position;
+    if (!Number.isInteger(position) || position < 0) {
+      res.status(400).json({ error: 'Position must be a whole number' });
+      return;
+    }
+
+    const playlist = await findOwnPlaylist(req, res);
+    if (!playlist) return;
+
+    const track = playlist.tracks.find((other) => String(other._id) === req.params.trackId);
+    if (!track) {
+      res.status(404).json({ error: 'Track not found' });
+      return;
+    }
+
+    // Like moving a queue item: a position past the end means last
+    const rest = playlist.tracks.filter((other) => other !== track);
+    rest.splice(position, 0, track);
+    playlist.tracks = rest;
+    await playlist.save();
+    res.json(playlist.toJSON());
+  } catch (error) {
+    console.error('[Playlists] Move track error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
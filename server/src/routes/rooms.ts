@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { Room } from '../models/Room';
+import { PlayHistory } from '../models/PlayHistory';
 import { authMiddleware } from '../middleware/auth';
 import { slugify } from '../utils/helpers';
 
@@ -42,6 +43,45 @@ router.get('/:slug', async (req: Request, res: Response) => {
   }
 });
 
+const HISTORY_PAGE_SIZE = 20;
+const HISTORY_MAX_PAGE_SIZE = 100;
+
+// GET /api/rooms/:slug/history?page=1&limit=20 — what the room played, newest first
+router.get('/:slug/history', async (req: Request, res: Response) => {
+  try {
+    const room = await Room.findOne({ slug: req.params.slug }).select('_id');
+    if (!room) {
+      res.status(404).json({ error: 'Room not found' });
+      return;
+    }
+
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(
+      HISTORY_MAX_PAGE_SIZE,
+      Math.max(1, parseInt(String(req.query.limit), 10) || HISTORY_PAGE_SIZE)
+    );
+
+    const [items, total] = await Promise.all([
+      PlayHistory.find({ roomId: room._id })
+        .sort({ playedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PlayHistory.countDocuments({ roomId: room._id }),
+    ]);
+
+    res.json({
+      items: items.map((item) => item.toJSON()),
+      page,
+      limit,
+      total,
+      hasMore: page * limit < total,
+    });
+  } catch (error) {
+    console.error('[Rooms] History error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /api/rooms — create a new room (auth required)
 router.post('/', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,25 @@
+import { Server, Socket } from 'socket.io';
+
+export interface ClockStats {
+  offset: number; // ms to add to the client clock to get server time
+  rtt: number;    // round-trip time in ms
+}
+
+/**
+ * NTP-style clock sync. The client sends its send time (t0); the server
+ * answers with its receive (t1) and transmit (t2) times so the client can
+ * estimate its offset and round-trip time, then report them back.
+ */
+export function registerClockHandlers(_io: Server, socket: Socket): void {
+  socket.on('clockPing', (data: { t0: number }) => {
+    const t1 = Date.now();
+    if (typeof data?.t0 !== 'number') return;
+    socket.emit('clockPong', { t0: data.t0, t1, t2: Date.now() });
+  });
+
+  socket.on('clockStats', (data: ClockStats) => {
+    if (typeof data?.offset !== 'number' || typeof data?.rtt !== 'number') return;
+    if (!isFinite(data.offset) || !isFinite(data.rtt) || data.rtt < 0) return;
+    (socket.data as any).clock = { offset: data.offset, rtt: data.rtt } as ClockStats;
+  });
+}
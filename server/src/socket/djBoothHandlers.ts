@@ -0,0 +1,195 @@
+import { Server, Socket } from 'socket.io';
+import { Room, IRoom, IWaitlistEntry } from '../models/Room';
+import { isHostOrMod } from './permissions';
+import { getDjQueue } from './queueOrder';
+import { playNextIfIdle } from './timerService';
+
+const STALE_DJ_ITEM_MESSAGE = 'That track is no longer in your queue';
+
+/** Socket.IO room joined by every socket of a user, for per-user events. */
+export function userChannel(userId: string): string {
+  return `user:${userId}`;
+}
+
+export function emitWaitlist(io: Server, room: IRoom): void {
+  io.to(room.slug).emit('waitlistUpdated', { waitlist: room.waitlist });
+}
+
+/** Send a DJ their personal queue (all of their tabs). */
+export function emitDjQueue(io: Server, room: IRoom, userId: string): void {
+  io.to(userChannel(userId)).emit('djQueueUpdated', {
+    roomSlug: room.slug,
+    queue: getDjQueue(room, userId) || [],
+  });
+}
+
+/**
+ * Drop a user from the booth waitlist (they left or were kicked). Their
+ * personal queue is kept for when they come back.
+ */
+export async function removeFromWaitlist(io: Server, slug: string, userId: string): Promise<void> {
+  const room = await Room.findOneAndUpdate(
+    { slug, 'waitlist.userId': userId },
+    { $pull: { waitlist: { userId } } },
+    { new: true }
+  );
+  if (room) emitWaitlist(io, room);
+}
+
+export function registerDjBoothHandlers(io: Server, socket: Socket): void {
+  // Get in line to DJ
+  socket.on('joinWaitlist', async () => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const username = (socket.data as any).username as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      if (room.settings.queueMode !== 'booth') {
+        socket.emit('error', { message: 'This room is not using the DJ booth' });
+        return;
+      }
+
+      if (room.waitlist.some((entry) => entry.userId === userId)) {
+        socket.emit('error', { message: 'You are already in the waitlist' });
+        return;
+      }
+
+      const items = getDjQueue(room, userId);
+      if (!items || items.length === 0) {
+        socket.emit('error', { message: 'Add a track to your DJ queue before joining the waitlist' });
+        return;
+      }
+
+      room.waitlist.push({ userId, username });
+      await room.save();
+      emitWaitlist(io, room);
+
+      // First DJ in an idle (or auto-playing) room starts playing right away
+      await playNextIfIdle(io, room);
+
+      console.log(`[Booth] ${username} joined the waitlist in ${currentRoom}`);
+    } catch (error) {
+      console.error('[Booth] joinWaitlist error:', error);
+      socket.emit('error', { message: 'Failed to join the waitlist' });
+    }
+  });
+
+  socket.on('leaveWaitlist', async () => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      await removeFromWaitlist(io, currentRoom, userId);
+      console.log(`[Booth] ${(socket.data as any).username} left the waitlist in ${currentRoom}`);
+    } catch (error) {
+      console.error('[Booth] leaveWaitlist error:', error);
+      socket.emit('error', { message: 'Failed to leave the waitlist' });
+    }
+  });
+
+  // Mod moves a DJ to another spot in the waitlist (0 = next up)
+  socket.on('moveInWaitlist', async (data: { userId: string; position: number }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const requesterId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      if (!isHostOrMod(room, requesterId)) {
+        socket.emit('error', { message: 'Only the host or moderators can reorder the waitlist' });
+        return;
+      }
+
+      const from = room.waitlist.findIndex((entry) => entry.userId === data?.userId);
+      if (from === -1) {
+        socket.emit('error', { message: 'That user is not in the waitlist' });
+        return;
+      }
+
+      const position = data.position;
+      if (!Number.isInteger(position) || position < 0 || position >= room.waitlist.length) {
+        socket.emit('error', { message: 'Invalid waitlist position' });
+        return;
+      }
+
+      const entry = room.waitlist[from];
+      const waitlist: IWaitlistEntry[] = room.waitlist.map((e) => ({ userId: e.userId, username: e.username }));
+      waitlist.splice(from, 1);
+      waitlist.splice(position, 0, { userId: entry.userId, username: entry.username });
+      room.waitlist = waitlist;
+      await room.save();
+      emitWaitlist(io, room);
+
+      console.log(`[Mod] ${(socket.data as any).username} moved ${entry.username} to #${position + 1} in the waitlist of ${currentRoom}`);
+    } catch (error) {
+      console.error('[Booth] moveInWaitlist error:', error);
+      socket.emit('error', { message: 'Failed to move user in the waitlist' });
+    }
+  });
+
+  // DJ removes a track from their personal queue
+  socket.on('removeFromDjQueue', async (data: { itemId: string }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      const items = getDjQueue(room, userId) || [];
+      const index = items.findIndex((item) => String(item._id) === data?.itemId);
+      if (index === -1) {
+        socket.emit('error', { message: STALE_DJ_ITEM_MESSAGE });
+        return;
+      }
+
+      items.splice(index, 1);
+      await room.save();
+      emitDjQueue(io, room, userId);
+    } catch (error) {
+      console.error('[Booth] removeFromDjQueue error:', error);
+      socket.emit('error', { message: 'Failed to remove track' });
+    }
+  });
+
+  // DJ moves a track to another spot in their personal queue
+  socket.on('moveInDjQueue', async (data: { itemId: string; position: number }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      const items = getDjQueue(room, userId) || [];
+      const from = items.findIndex((item) => String(item._id) === data?.itemId);
+      if (from === -1) {
+        socket.emit('error', { message: STALE_DJ_ITEM_MESSAGE });
+        return;
+      }
+
+      const position = data.position;
+      if (!Number.isInteger(position) || position < 0 || position >= items.length) {
+        socket.emit('error', { message: 'Invalid queue position' });
+        return;
+      }
+
+      const [item] = items.splice(from, 1);
+      items.splice(position, 0, item);
+      await room.save();
+      emitDjQueue(io, room, userId);
+    } catch (error) {
+      console.error('[Booth] moveInDjQueue error:', error);
+      socket.emit('error', { message: 'Failed to move track' });
+    }
+  });
+}
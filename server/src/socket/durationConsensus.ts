@@ -0,0 +1,68 @@
+import { IDurationReport } from '../models/Room';
+
+// Reports within this many seconds of the median describe the same media
+const AGREEMENT_TOLERANCE_SECONDS = 2;
+
+// Agreeing reports needed to settle without a trusted reporter
+export const REQUIRED_AGREEING_REPORTS = 3;
+
+// Stop collecting once this many reports are stored for a track
+export const MAX_DURATION_REPORTS = 20;
+
+// Longest duration a client may report (24h); anything above is a live stream or garbage
+const MAX_REPORTED_DURATION_SECONDS = 24 * 60 * 60;
+
+export function isPlausibleDuration(duration: unknown): duration is number {
+  return (
+    typeof duration === 'number' &&
+    Number.isFinite(duration) &&
+    duration > 0 &&
+    duration <= MAX_REPORTED_DURATION_SECONDS
+  );
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * The duration `quorum` reports agree on, or null. Reports far from the
+ * median are discarded as outliers, and the rest must also be a majority of
+ * everything reported.
+ */
+function agreedDuration(reports: IDurationReport[], quorum: number): number | null {
+  if (reports.length < quorum) return null;
+
+  const center = median(reports.map((r) => r.duration));
+  const agreeing = reports
+    .map((r) => r.duration)
+    .filter((d) => Math.abs(d - center) <= AGREEMENT_TOLERANCE_SECONDS);
+
+  if (agreeing.length < quorum || agreeing.length * 2 <= reports.length) return null;
+  return median(agreeing);
+}
+
+/**
+ * Decide a track's duration from the reports collected so far, or return
+ * null while there is no consensus yet.
+ *
+ * The first report from the submitter or a host/moderator wins outright.
+ * Otherwise the duration settles once `quorum` of the reports agree (see
+ * agreedDuration).
+ */
+export function resolveDuration(reports: IDurationReport[], quorum: number): number | null {
+  const trusted = reports.find((r) => r.trusted);
+  if (trusted) return trusted.duration;
+  return agreedDuration(reports, quorum);
+}
+
+/**
+ * The duration a full quorum of listeners agree on, or null. Stricter than
+ * resolveDuration: no trusted shortcut and no smaller quorum for small
+ * rooms, since the result is shared with every other room.
+ */
+export function sharedDuration(reports: IDurationReport[]): number | null {
+  return agreedDuration(reports, REQUIRED_AGREEING_REPORTS);
+}
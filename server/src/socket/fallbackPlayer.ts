@@ -0,0 +1,129 @@
+import mongoose from 'mongoose';
+import { IRoom, IVideoItem, ICurrentVideo } from '../models/Room';
+import { Playlist } from '../models/Playlist';
+import { PlayHistory, IPlayHistory } from '../models/PlayHistory';
+import { canonicalMediaId, normalizeUrl } from '../utils/videoValidator';
+import { cachedMetadata } from '../media';
+
+// Stands in as the submitter of auto-picked tracks
+export const AUTOPLAY_USER = { _id: 'autoplay', username: 'Autoplay' };
+
+// How many distinct tracks the history and repeat modes choose from
+const HISTORY_POOL_SIZE = 50;
+const REPEAT_POOL_SIZE = 50;
+
+/** Nothing is playing, or only an auto-picked track that should give way. */
+export function isIdle(room: IRoom): boolean {
+  return !room.currentVideo || room.currentVideo.autoPicked;
+}
+
+type FallbackSource = Pick<IVideoItem, 'url' | 'title' | 'duration' | 'startAt' | 'endAt'>;
+
+function toFallbackItem(track: FallbackSource): IVideoItem {
+  // Older history and playlist entries may hold URLs from before normalization
+  const url = normalizeUrl(track.url);
+  return {
+    url,
+    providerId: canonicalMediaId(url),
+    title: track.title,
+    author: null,
+    thumbnailUrl: null,
+    duration: track.duration,
+    startAt: track.startAt || 0,
+    endAt: track.endAt ?? null,
+    addedBy: { ...AUTOPLAY_USER },
+    upvotes: [],
+    downvotes: [],
+    addedAt: new Date(),
+  };
+}
+
+// The next of `tracks` in turn; the position is saved with the room
+function nextInCycle(room: IRoom, tracks: FallbackSource[]): IVideoItem | null {
+  if (tracks.length === 0) return null;
+  const position = (room.fallbackPosition || 0) % tracks.length;
+  room.fallbackPosition = (position + 1) % tracks.length;
+  return toFallbackItem(tracks[position]);
+}
+
+/** The host's chosen playlist, front to back and round again. */
+async function fromPlaylist(room: IRoom): Promise<IVideoItem | null> {
+  const playlistId = room.settings.fallbackPlaylistId;
+  if (!playlistId || !mongoose.isValidObjectId(playlistId)) return null;
+
+  // Checked again here in case the room changed hands since it was chosen
+  const playlist = await Playlist.findOne({ _id: playlistId, ownerId: room.creatorId });
+  return playlist ? nextInCycle(room, playlist.tracks) : null;
+}
+
+/**
+ * A shuffle of the room's best-received tracks: a random pick among the
+ * most-wooted submitted plays, never the track that just finished.
+ */
+async function fromHistory(room: IRoom, finished: ICurrentVideo | null): Promise<IVideoItem | null> {
+  const pool: { play: IPlayHistory; woots: number }[] = await PlayHistory.aggregate([
+    { $match: { roomId: room._id, autoPicked: { $ne: true } } },
+    { $sort: { playedAt: -1 } },
+    { $group: { _id: '$mediaId', play: { $first: '$$ROOT' }, woots: { $max: '$woots' } } },
+    { $sort: { woots: -1 } },
+    { $limit: HISTORY_POOL_SIZE },
+  ]);
+
+  const justPlayed = finished ? canonicalMediaId(finished.url) : null;
+  const candidates = pool.filter((entry) => entry.play.mediaId !== justPlayed);
+  const liked = candidates.filter((entry) => entry.woots > 0);
+  const choices = liked.length > 0 ? liked : candidates;
+  if (choices.length === 0) return null;
+
+  return toFallbackItem(choices[Math.floor(Math.random() * choices.length)].play);
+}
+
+/** The room's recent submitted plays again, in the order they first played. */
+async function fromRecentPlays(room: IRoom): Promise<IVideoItem | null> {
+  const plays = await PlayHistory.find({ roomId: room._id, autoPicked: { $ne: true } })
+    .sort({ playedAt: -1 })
+    .limit(REPEAT_POOL_SIZE);
+
+  // Each track once, at its latest play
+  const cycle: IPlayHistory[] = [];
+  const seen = new Set<string>();
+  for (const play of plays) {
+    if (seen.has(play.mediaId)) continue;
+    seen.add(play.mediaId);
+    cycle.unshift(play);
+  }
+  return nextInCycle(room, cycle);
+}
+
+/**
+ * Pick a track for a room whose queue has run dry, per its fallback mode.
+ * Null when the mode is off or has nothing to offer. May move the room's
+ * fallbackPosition, so the caller saves the room.
+ */
+export async function pickFallbackTrack(room: IRoom, finished: ICurrentVideo | null): Promise<IVideoItem | null> {
+  try {
+    let item: IVideoItem | null = null;
+    switch (room.settings.fallbackMode) {
+      case 'playlist':
+        item = await fromPlaylist(room);
+        break;
+      case 'history':
+        item = await fromHistory(room, finished);
+        break;
+      case 'repeat':
+        item = await fromRecentPlays(room);
+        break;
+    }
+    if (!item) return null;
+
+    // Artwork from the metadata cache, if anyone has looked the track up
+    const metadata = (await cachedMetadata([item.providerId!])).get(item.providerId!);
+    item.author = metadata?.author ?? null;
+    item.thumbnailUrl = metadata?.thumbnailUrl ?? null;
+    return item;
+  } catch (error) {
+    // Best-effort: on failure the room just goes quiet as it did before
+    console.error(`[Autoplay] Failed to pick a track for ${room.slug}:`, error);
+    return null;
+  }
+}
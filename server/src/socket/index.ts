@@ -4,10 +4,26 @@ import bcrypt from 'bcryptjs';
 import { verifyToken } from '../middleware/auth';
 import { User } from '../models/User';
 import { Room } from '../models/Room';
-import { registerRoomHandlers, clearRoomPresence } from './roomHandlers';
+import { registerRoomHandlers } from './roomHandlers';
 import { registerChatHandlers } from './chatHandlers';
-import { registerQueueHandlers } from './queueHandlers';
-import { advanceQueue, stopVideoTimer, handleHostMediaUpdate } from './timerService';
+import { registerQueueHandlers, findQueueItem, emitQueuePatch, STALE_ITEM_MESSAGE } from './queueHandlers';
+import { registerClockHandlers } from './clockHandlers';
+import { registerLeaderHandlers, electLeader } from './leaderHandlers';
+import { registerSyncHealthHandlers } from './syncHealthHandlers';
+import { registerSettingsHandlers } from './settingsHandlers';
+import { registerDjBoothHandlers, removeFromWaitlist, userChannel } from './djBoothHandlers';
+import { registerReactionHandlers } from './reactionHandlers';
+import {
+  advanceQueue,
+  stopVideoTimer,
+  stopRoomPlayback,
+  handleHostMediaUpdate,
+  handlePlaybackRateChange,
+  autoPauseIfEmpty,
+} from './timerService';
+import { isValidPlaybackRate } from './playbackClock';
+import { isHostOrMod } from './permissions';
+import { isManualOrder, moveQueueItem } from './queueOrder';
 
 export function initSocket(httpServer: HttpServer): Server {
   const io = new Server(httpServer, {
@@ -46,23 +62,24 @@ export function initSocket(httpServer: HttpServer): Server {
 
   io.on('connection', (socket) => {
     console.log(`[Socket] Connected: ${socket.data.username} (${socket.id})`);
+    // Per-user channel for events that follow a user across tabs
+    socket.join(userChannel(socket.data.userId));
 
     registerRoomHandlers(io, socket);
     registerChatHandlers(io, socket);
     registerQueueHandlers(io, socket);
     registerModerationHandlers(io, socket);
+    registerClockHandlers(io, socket);
+    registerLeaderHandlers(io, socket);
+    registerSyncHealthHandlers(io, socket);
+    registerSettingsHandlers(io, socket);
+    registerDjBoothHandlers(io, socket);
+    registerReactionHandlers(io, socket);
   });
 
   return io;
 }
 
-function isHostOrMod(room: any, userId: string): boolean {
-  return (
-    room.creatorId.toString() === userId ||
-    (room.moderators && room.moderators.includes(userId))
-  );
-}
-
 function registerModerationHandlers(io: Server, socket: any): void {
   // Skip video
   socket.on('skipVideo', async () => {
@@ -79,12 +96,12 @@ function registerModerationHandlers(io: Server, socket: any): void {
     }
 
     stopVideoTimer(currentRoom);
-    await advanceQueue(io, currentRoom);
+    await advanceQueue(io, currentRoom, { skipped: true });
     console.log(`[Mod] ${socket.data.username} skipped video in ${currentRoom}`);
   });
 
   // Remove video from queue
-  socket.on('removeVideo', async (data: { videoIndex: number }) => {
+  socket.on('removeVideo', async (data: { itemId: string }) => {
     const currentRoom = socket.data.currentRoom as string | undefined;
     if (!currentRoom) return;
 
@@ -97,16 +114,71 @@ function registerModerationHandlers(io: Server, socket: any): void {
       return;
     }
 
-    const { videoIndex } = data;
-    if (videoIndex < 0 || videoIndex >= room.queue.length) {
-      socket.emit('error', { message: 'Invalid video index' });
+    const video = findQueueItem(room, data?.itemId);
+    if (!video) {
+      socket.emit('error', { message: STALE_ITEM_MESSAGE });
+      return;
+    }
+
+    room.queue = room.queue.filter((item) => item !== video);
+    await room.save();
+    emitQueuePatch(io, room, { removed: [String(video._id)] });
+    console.log(`[Mod] ${socket.data.username} removed "${video.title}" from ${currentRoom}`);
+  });
+
+  // Reorder the queue: move an item to a position, to the front, or to the end
+  const moveVideo = async (itemId: unknown, position: (queueLength: number) => number) => {
+    const currentRoom = socket.data.currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    const userId = socket.data.userId as string;
+    const room = await Room.findOne({ slug: currentRoom });
+    if (!room) return;
+
+    // Rejected moves send the mover the real queue to undo their optimistic reorder
+    const reject = (message: string) => {
+      socket.emit('error', { message });
+      socket.emit('queueUpdated', { queue: room.queue });
+    };
+
+    if (!isHostOrMod(room, userId)) {
+      reject('Only the host or moderators can reorder the queue');
+      return;
+    }
+
+    if (!isManualOrder(room.settings.queueMode)) {
+      reject('The queue can only be reordered when it plays in order');
+      return;
+    }
+
+    const video = findQueueItem(room, itemId);
+    if (!video) {
+      reject(STALE_ITEM_MESSAGE);
+      return;
+    }
+
+    const to = position(room.queue.length);
+    if (!Number.isInteger(to) || to < 0 || to >= room.queue.length) {
+      reject('Invalid queue position');
       return;
     }
 
-    room.queue.splice(videoIndex, 1);
+    moveQueueItem(room, video, to);
     await room.save();
-    io.to(currentRoom).emit('queueUpdated', { queue: room.queue });
-    console.log(`[Mod] ${socket.data.username} removed video at index ${videoIndex} in ${currentRoom}`);
+    emitQueuePatch(io, room, {});
+    console.log(`[Mod] ${socket.data.username} moved "${video.title}" to #${to + 1} in ${currentRoom}`);
+  };
+
+  socket.on('moveVideo', async (data: { itemId: string; position: number }) => {
+    await moveVideo(data?.itemId, () => data?.position);
+  });
+
+  socket.on('playNext', async (data: { itemId: string }) => {
+    await moveVideo(data?.itemId, () => 0);
+  });
+
+  socket.on('moveToBottom', async (data: { itemId: string }) => {
+    await moveVideo(data?.itemId, (queueLength) => queueLength - 1);
   });
 
   // Kick user
@@ -149,6 +221,9 @@ function registerModerationHandlers(io: Server, socket: any): void {
     io.to(currentRoom).emit('userLeft', {
       user: { _id: targetUserId, username: 'removed user', avatarColor: '#666' },
     });
+    await electLeader(io, currentRoom);
+    await removeFromWaitlist(io, currentRoom, targetUserId);
+    await autoPauseIfEmpty(io, currentRoom);
 
     console.log(`[Mod] ${socket.data.username} kicked user ${targetUserId} from ${currentRoom}`);
   });
@@ -208,15 +283,14 @@ function registerModerationHandlers(io: Server, socket: any): void {
       (s.data as any).currentRoom = undefined;
     }
 
-    stopVideoTimer(currentRoom);
-    clearRoomPresence(currentRoom);
+    await stopRoomPlayback(io, currentRoom);
     await Room.deleteOne({ slug: currentRoom });
     console.log(`[Mod] ${socket.data.username} deleted room ${currentRoom}`);
   });
 
   // =====================================================================
   // CyTube-style mediaUpdate: ONE endpoint for all playback control.
-  // Host/mod sends { currentTime, paused }, server rebroadcasts to room.
+  // The room's leader sends { currentTime, paused }, server rebroadcasts to room.
   // =====================================================================
   socket.on('mediaUpdate', async (data: { currentTime: number; paused: boolean }) => {
     const currentRoom = socket.data.currentRoom as string | undefined;
@@ -226,8 +300,8 @@ function registerModerationHandlers(io: Server, socket: any): void {
     const room = await Room.findOne({ slug: currentRoom });
     if (!room) return;
 
-    // Only host/mod can send updates (like CyTube's leader check)
-    if (!isHostOrMod(room, userId)) return;
+    // Only the elected leader's player is authoritative (CyTube's leader check)
+    if (room.leaderId !== userId) return;
 
     const { currentTime, paused } = data;
     if (typeof currentTime !== 'number' || isNaN(currentTime)) return;
@@ -235,6 +309,29 @@ function registerModerationHandlers(io: Server, socket: any): void {
     await handleHostMediaUpdate(io, currentRoom, currentTime, Boolean(paused));
   });
 
+  // Room-wide playback speed (lecture/podcast rooms)
+  socket.on('setPlaybackRate', async (data: { playbackRate: number }) => {
+    const currentRoom = socket.data.currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    const userId = socket.data.userId as string;
+    const room = await Room.findOne({ slug: currentRoom });
+    if (!room) return;
+
+    if (!isHostOrMod(room, userId)) {
+      socket.emit('error', { message: 'Only the host or moderators can change the playback speed' });
+      return;
+    }
+
+    if (!isValidPlaybackRate(data?.playbackRate)) {
+      socket.emit('error', { message: 'Playback speed must be between 0.75x and 2x' });
+      return;
+    }
+
+    await handlePlaybackRateChange(io, currentRoom, data.playbackRate);
+    console.log(`[Mod] ${socket.data.username} set playback speed to ${data.playbackRate}x in ${currentRoom}`);
+  });
+
   // Promote mod
   socket.on('promoteMod', async (data: { userId: string }) => {
     const currentRoom = socket.data.currentRoom as string | undefined;
@@ -265,6 +362,7 @@ function registerModerationHandlers(io: Server, socket: any): void {
     await room.save();
 
     io.to(currentRoom).emit('moderatorsUpdated', { moderators: room.moderators });
+    await electLeader(io, currentRoom);
     console.log(`[Mod] ${socket.data.username} promoted ${targetUserId} to moderator in ${currentRoom}`);
   });
 
@@ -293,6 +391,7 @@ function registerModerationHandlers(io: Server, socket: any): void {
     await room.save();
 
     io.to(currentRoom).emit('moderatorsUpdated', { moderators: room.moderators });
+    await electLeader(io, currentRoom);
     console.log(`[Mod] ${socket.data.username} demoted ${targetUserId} from moderator in ${currentRoom}`);
   });
 }
@@ -0,0 +1,108 @@
+import { Server, Socket } from 'socket.io';
+import { Room } from '../models/Room';
+import { getRoomUsers, isUserInRoom } from './roomHandlers';
+import { isHostOrMod } from './permissions';
+
+// Each room has one playback leader whose player is the source of truth for
+// pause/seek. Everyone else, moderators included, follows the sync.
+
+/**
+ * Replace the leader only if it is still `expected`, so two instances
+ * re-electing at the same time can't flip-flop. Returns the leader in effect.
+ */
+async function swapLeader(
+  io: Server,
+  slug: string,
+  expected: string | null,
+  leaderId: string | null
+): Promise<string | null> {
+  const result = await Room.updateOne({ slug, leaderId: expected }, { $set: { leaderId } });
+  if (result.modifiedCount === 0) {
+    const room = await Room.findOne({ slug }).select('leaderId').lean();
+    return room?.leaderId ?? null;
+  }
+
+  io.to(slug).emit('leaderChanged', { leaderId });
+  console.log(`[Leader] Room ${slug}: leader is now ${leaderId ?? 'nobody'}`);
+  return leaderId;
+}
+
+/**
+ * Make sure the room's leader is present and still a host/mod, otherwise
+ * hand the role to the host, or failing that to a present moderator.
+ * Returns the leader's userId (null when no host/mod is in the room).
+ */
+export async function electLeader(io: Server, slug: string): Promise<string | null> {
+  const room = await Room.findOne({ slug });
+  if (!room) return null;
+
+  const present = new Set((await getRoomUsers(io, slug)).map((u) => u._id));
+  const current = room.leaderId ?? null;
+  if (current && present.has(current) && isHostOrMod(room, current)) return current;
+
+  const hostId = room.creatorId.toString();
+  const next = present.has(hostId) ? hostId : room.moderators.find((id) => present.has(id)) ?? null;
+  if (next === current) return current;
+
+  return swapLeader(io, slug, current, next);
+}
+
+export function registerLeaderHandlers(io: Server, socket: Socket): void {
+  // Host/mod takes over playback control
+  socket.on('takeLeader', async () => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      if (!isHostOrMod(room, userId)) {
+        socket.emit('error', { message: 'Only the host or moderators can lead playback' });
+        return;
+      }
+
+      if (room.leaderId === userId) return;
+      await swapLeader(io, currentRoom, room.leaderId ?? null, userId);
+    } catch (error) {
+      console.error('[Leader] takeLeader error:', error);
+      socket.emit('error', { message: 'Failed to take the lead' });
+    }
+  });
+
+  // Leader (or the host) hands playback control to another host/mod
+  socket.on('giveLeader', async (data: { userId: string }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const requesterId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      const isHost = room.creatorId.toString() === requesterId;
+      if (room.leaderId !== requesterId && !isHost) {
+        socket.emit('error', { message: 'Only the current leader or the host can hand over the lead' });
+        return;
+      }
+
+      const targetUserId = data?.userId;
+      if (!targetUserId || !isHostOrMod(room, targetUserId)) {
+        socket.emit('error', { message: 'Only the host or a moderator can lead playback' });
+        return;
+      }
+
+      if (!(await isUserInRoom(io, currentRoom, targetUserId))) {
+        socket.emit('error', { message: 'That user is not in the room' });
+        return;
+      }
+
+      if (room.leaderId === targetUserId) return;
+      await swapLeader(io, currentRoom, room.leaderId ?? null, targetUserId);
+    } catch (error) {
+      console.error('[Leader] giveLeader error:', error);
+      socket.emit('error', { message: 'Failed to hand over the lead' });
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import { EventEmitter } from 'events';
+import { Namespace } from 'socket.io';
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+} from 'socket.io-adapter';
+
+/**
+ * In-process stand-in for the Redis adapter. Every Socket.IO server created
+ * in this process with the same bus behaves like a separate cluster member,
+ * which lets several "instances" run side by side without Redis (tests,
+ * local experiments).
+ */
+const defaultBus = new EventEmitter();
+defaultBus.setMaxListeners(0);
+
+class LocalClusterAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly bus: EventEmitter;
+  private readonly onBusMessage: (message: ClusterMessage) => void;
+  private readonly onBusResponse: (response: ClusterResponse) => void;
+
+  constructor(nsp: Namespace, bus: EventEmitter, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.bus = bus;
+
+    this.onBusMessage = (message) => {
+      if (message.nsp === this.nsp.name) this.onMessage(message);
+    };
+    this.onBusResponse = (response) => {
+      if (response.nsp === this.nsp.name) this.onResponse(response);
+    };
+
+    this.bus.on('message', this.onBusMessage);
+    this.bus.on(`response:${this.uid}`, this.onBusResponse);
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    // Deliver asynchronously, like a real transport would
+    setImmediate(() => this.bus.emit('message', message));
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: string, response: ClusterResponse): Promise<void> {
+    setImmediate(() => this.bus.emit(`response:${requesterUid}`, response));
+  }
+
+  close(): void {
+    super.close();
+    this.bus.off('message', this.onBusMessage);
+    this.bus.off(`response:${this.uid}`, this.onBusResponse);
+  }
+}
+
+export function createLocalAdapter(bus: EventEmitter = defaultBus, opts: ClusterAdapterOptions = {}) {
+  // Socket.IO instantiates this with `new`, so it must not be an arrow function
+  return function (nsp: Namespace) {
+    return new LocalClusterAdapter(nsp, bus, opts);
+  };
+}
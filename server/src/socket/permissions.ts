@@ -0,0 +1,6 @@
+export function isHostOrMod(room: any, userId: string): boolean {
+  return (
+    room.creatorId.toString() === userId ||
+    (room.moderators && room.moderators.includes(userId))
+  );
+}
@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import { Room, ICurrentVideo } from '../models/Room';
+
+// Snapshot of a room's playback, as sent to joining clients
+export interface PlaybackState {
+  isPaused: boolean;
+  pausedAt: number;    // seconds elapsed when paused
+  currentTime: number; // seconds elapsed right now
+  playbackRate: number;
+  startedAt: number;   // epoch ms at which position 0 played at the current rate
+}
+
+// Speeds a host can pick for the whole room
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export function isValidPlaybackRate(rate: unknown): rate is number {
+  return typeof rate === 'number' && PLAYBACK_RATES.includes(rate);
+}
+
+// Anything with a media length and an optional clip range (queue items, current video)
+interface Clippable {
+  duration: number;
+  startAt?: number;
+  endAt?: number | null;
+}
+
+/** Where playback of an item stops: the clip's end, else the media's end (null while unknown). */
+export function clipEnd(item: Clippable): number | null {
+  const duration = item.duration > 0 ? item.duration : null;
+  if (item.endAt === null || item.endAt === undefined) return duration;
+  return duration === null ? item.endAt : Math.min(item.endAt, duration);
+}
+
+/** Seconds of media an item plays for, or null while unknown. */
+export function clipLength(item: Clippable): number | null {
+  const end = clipEnd(item);
+  return end === null ? null : Math.max(end - (item.startAt || 0), 0);
+}
+
+// Coalesce bursts of play/seek/duration changes into one write
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Authoritative playback position for one room. Held in memory by the
+ * instance that owns the room's timers; MongoDB only receives write-behind
+ * snapshots so the state survives restarts and failover.
+ *
+ * Positions and durations are in media seconds; at playbackRate r, one wall
+ * second advances the position by r seconds. Clipped tracks start at startAt
+ * and end at endAt, both absolute media positions.
+ */
+export class PlaybackClock {
+  readonly url: string;
+  readonly historyId: mongoose.Types.ObjectId | null; // tells this play apart from a replay of the url
+  readonly startAt: number;
+  readonly endAt: number | null;
+  duration: number;
+  startedAt: number; // epoch ms at which position 0 played at the current rate
+  isPaused: boolean;
+  pausedAt: number;
+  playbackRate: number;
+  autoPaused: boolean; // paused because nobody was listening
+
+  constructor(video: ICurrentVideo) {
+    this.url = video.url;
+    this.historyId = video.historyId ?? null;
+    this.startAt = video.startAt || 0;
+    this.endAt = video.endAt ?? null;
+    this.duration = video.duration;
+    this.startedAt = new Date(video.startedAt).getTime();
+    this.isPaused = video.isPaused;
+    this.pausedAt = video.pausedAt;
+    this.playbackRate = video.playbackRate || 1;
+    this.autoPaused = Boolean(video.autoPaused);
+  }
+
+  /** Seconds elapsed in the track. */
+  position(now: number = Date.now()): number {
+    return this.isPaused ? this.pausedAt : ((now - this.startedAt) / 1000) * this.playbackRate;
+  }
+
+  /** Media seconds left before the track (or clip) ends, or null while that is unknown. */
+  remaining(now: number = Date.now()): number | null {
+    const end = clipEnd(this);
+    return end === null ? null : end - this.position(now);
+  }
+
+  /** Wall-clock seconds until the track ends at the current rate. */
+  wallRemaining(now: number = Date.now()): number | null {
+    const remaining = this.remaining(now);
+    return remaining === null ? null : remaining / this.playbackRate;
+  }
+
+  pause(at: number, auto = false): void {
+    this.isPaused = true;
+    this.pausedAt = at;
+    this.autoPaused = auto;
+  }
+
+  play(at: number, now: number = Date.now()): void {
+    this.isPaused = false;
+    this.pausedAt = 0;
+    this.autoPaused = false;
+    this.startedAt = now - (at * 1000) / this.playbackRate;
+  }
+
+  /** Change speed without moving the current position. */
+  setRate(rate: number, now: number = Date.now()): void {
+    const at = this.position(now);
+    this.playbackRate = rate;
+    if (!this.isPaused) this.play(at, now);
+  }
+
+  snapshot(now: number = Date.now()): PlaybackState {
+    return {
+      isPaused: this.isPaused,
+      pausedAt: this.pausedAt,
+      currentTime: this.position(now),
+      playbackRate: this.playbackRate,
+      startedAt: this.startedAt,
+    };
+  }
+}
+
+const roomClocks = new Map<string, PlaybackClock>();
+const pendingWrites = new Map<string, NodeJS.Timeout>();
+
+export function getClock(roomSlug: string): PlaybackClock | undefined {
+  return roomClocks.get(roomSlug);
+}
+
+/** Start tracking a room's current video (new track, recovery, takeover). */
+export function setClock(roomSlug: string, video: ICurrentVideo): PlaybackClock {
+  cancelPersist(roomSlug);
+  const clock = new PlaybackClock(video);
+  roomClocks.set(roomSlug, clock);
+  return clock;
+}
+
+/**
+ * Stop tracking a room. A pending write still goes out, so the last pause,
+ * seek or rate change survives a handover; it is guarded by url, so it
+ * never lands on a later track.
+ */
+export function dropClock(roomSlug: string): void {
+  if (pendingWrites.has(roomSlug)) {
+    // flushClock reads the clock before its first await, so it can go now
+    flushClock(roomSlug).catch((error) => {
+      console.error(`[Clock] Persist error for ${roomSlug}:`, error);
+    });
+  }
+  roomClocks.delete(roomSlug);
+}
+
+/**
+ * Playback state for a room: from the local clock when this instance owns
+ * it, otherwise derived from the persisted currentVideo.
+ */
+export function getPlaybackState(roomSlug: string, video: ICurrentVideo | null): PlaybackState {
+  const clock = roomClocks.get(roomSlug);
+  if (clock) return clock.snapshot();
+  if (video) return new PlaybackClock(video).snapshot();
+  return { isPaused: false, pausedAt: 0, currentTime: 0, playbackRate: 1, startedAt: Date.now() };
+}
+
+// --- Write-behind persistence ---
+
+function cancelPersist(roomSlug: string): void {
+  const pending = pendingWrites.get(roomSlug);
+  if (pending) {
+    clearTimeout(pending);
+    pendingWrites.delete(roomSlug);
+  }
+}
+
+/** Schedule a debounced write of the clock to Room.currentVideo. */
+export function schedulePersist(roomSlug: string): void {
+  cancelPersist(roomSlug);
+  const timer = setTimeout(() => {
+    pendingWrites.delete(roomSlug);
+    flushClock(roomSlug).catch((error) => {
+      console.error(`[Clock] Persist error for ${roomSlug}:`, error);
+    });
+  }, PERSIST_DELAY_MS);
+  pendingWrites.set(roomSlug, timer);
+}
+
+export async function flushClock(roomSlug: string): Promise<void> {
+  cancelPersist(roomSlug);
+  const clock = roomClocks.get(roomSlug);
+  if (!clock) return;
+
+  // Guard on the play so a late write never lands on the next track, even
+  // when that is the same url again
+  await Room.updateOne(
+    { slug: roomSlug, 'currentVideo.url': clock.url, 'currentVideo.historyId': clock.historyId },
+    {
+      $set: {
+        'currentVideo.duration': clock.duration,
+        'currentVideo.startedAt': new Date(clock.startedAt),
+        'currentVideo.isPaused': clock.isPaused,
+        'currentVideo.pausedAt': clock.pausedAt,
+        'currentVideo.playbackRate': clock.playbackRate,
+        'currentVideo.autoPaused': clock.autoPaused,
+      },
+    }
+  );
+}
+
+/** Write out every pending clock (graceful shutdown). */
+export async function flushAllClocks(): Promise<void> {
+  const slugs = Array.from(pendingWrites.keys());
+  await Promise.all(slugs.map((slug) => flushClock(slug)));
+}
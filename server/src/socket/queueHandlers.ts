@@ -1,11 +1,199 @@
 import { Server, Socket } from 'socket.io';
-import { Room } from '../models/Room';
-import { isValidVideoUrl, fetchVideoInfo } from '../utils/videoValidator';
-import { startVideoTimer, advanceQueue } from './timerService';
+import mongoose from 'mongoose';
+import { Room, IRoom, IVideoItem } from '../models/Room';
+import { Playlist } from '../models/Playlist';
+import {
+  isValidVideoUrl,
+  fetchVideoInfo,
+  resolveClipRange,
+  normalizeUrl,
+  canonicalMediaId,
+  ClipRange,
+  VideoInfo,
+} from '../utils/videoValidator';
+import {
+  parseImport,
+  ImportEntry,
+  ImportFailure,
+  ImportFormat,
+  MAX_IMPORT_ENTRIES,
+} from '../utils/playlistImport';
+import { supportedProviderNames, cachedMetadata } from '../media';
+import { playNextIfIdle, handleDurationReport } from './timerService';
+import { isPlausibleDuration } from './durationConsensus';
+import { applyQueueOrder, getDjQueue } from './queueOrder';
+import { emitDjQueue } from './djBoothHandlers';
+import {
+  submissionError,
+  submitterError,
+  trackError,
+  upcomingMediaIds,
+  recentPlays,
+  repeatMessage,
+  repeatError,
+  recordSubmission,
+} from './submissionRules';
+
+const IMPORT_FORMATS: ImportFormat[] = ['m3u', 'text', 'json'];
+const MAX_IMPORT_LENGTH = 256 * 1024; // characters
+const IMPORT_LOOKUP_BATCH = 5; // oEmbed lookups in flight at once
+
+export const STALE_ITEM_MESSAGE = 'That track is no longer in the queue';
+
+/** Look up a queue item by its id; undefined when it has already left the queue. */
+export function findQueueItem(room: IRoom, itemId: unknown): IVideoItem | undefined {
+  if (typeof itemId !== 'string') return undefined;
+  return room.queue.find((item) => String(item._id) === itemId);
+}
+
+export interface QueuePatch {
+  upserts?: IVideoItem[]; // items that were added or changed
+  removed?: string[];     // ids of items that left the queue
+}
+
+/**
+ * Broadcast a change to the shared queue without resending every item.
+ * `order` is the full list of ids in play order, so clients can apply the
+ * patch and tell when they have fallen out of step (and ask for the queue).
+ */
+export function emitQueuePatch(io: Server, room: IRoom, patch: QueuePatch): void {
+  io.to(room.slug).emit('queuePatch', {
+    ...patch,
+    order: room.queue.map((item) => String(item._id)),
+  });
+}
+
+export type NewQueueItem = Omit<IVideoItem, '_id'>;
+
+export function newQueueItem(
+  info: VideoInfo,
+  clip: ClipRange,
+  addedBy: { _id: string; username: string },
+  addedAt = new Date()
+): NewQueueItem {
+  const url = normalizeUrl(info.url);
+  return {
+    url,
+    providerId: canonicalMediaId(url),
+    title: info.title,
+    author: info.author ?? null,
+    thumbnailUrl: info.thumbnailUrl ?? null,
+    duration: info.duration,
+    startAt: clip.startAt,
+    endAt: clip.endAt,
+    addedBy,
+    upvotes: [],
+    downvotes: [],
+    addedAt,
+  };
+}
+
+/**
+ * Put new tracks where they belong (the submitter's DJ queue in booth
+ * rooms, the shared queue otherwise), save once, tell clients, and start
+ * playback if the room is idle. The caller has already checked the rules.
+ */
+export async function enqueueItems(io: Server, room: IRoom, userId: string, items: NewQueueItem[]): Promise<void> {
+  if (room.settings.queueMode === 'booth') {
+    // Booth tracks go to the DJ's own queue and play on their turn
+    const djQueue = getDjQueue(room, userId);
+    if (djQueue) {
+      djQueue.push(...items);
+    } else {
+      room.djQueues.push({ userId, items });
+    }
+    await room.save();
+    emitDjQueue(io, room, userId);
+
+    const inWaitlist = room.waitlist.some((entry) => entry.userId === userId);
+    if (inWaitlist) await playNextIfIdle(io, room);
+    return;
+  }
+
+  const first = room.queue.length;
+  room.queue.push(...items);
+  const added = room.queue.slice(first);
+  applyQueueOrder(room);
+  await room.save();
+
+  emitQueuePatch(io, room, { upserts: added });
+
+  // If nothing (or only autoplay) is playing, start the first new track
+  await playNextIfIdle(io, room);
+}
+
+// A track ready to be checked against the room, from an import or a playlist
+interface BatchTrack {
+  line: number; // where it came from, for reporting failures
+  info: VideoInfo;
+  clip: ClipRange;
+}
+
+/**
+ * Queue several tracks for the socket's user under the same rules as
+ * addVideo. Tracks that break a rule are added to `failures` and skipped;
+ * the submitter rules (guests, cooldown, per-person limit) apply to the
+ * batch as a whole, so they refuse all of it or none. Saves once.
+ */
+async function addBatch(
+  io: Server,
+  socket: Socket,
+  slug: string,
+  tracks: BatchTrack[],
+  failures: ImportFailure[]
+): Promise<{ added: number; error?: string }> {
+  const userId = (socket.data as any).userId as string;
+  const username = (socket.data as any).username as string;
+
+  const room = await Room.findOne({ slug });
+  if (!room) return { added: 0, error: 'Room not found' };
+
+  // Stagger addedAt so the batch keeps its order in every queue mode
+  const now = Date.now();
+  const items = tracks.map(({ info, clip }, i) =>
+    newQueueItem(info, clip, { _id: userId, username }, new Date(now + i))
+  );
+  const recent = await recentPlays(room, items, now);
+  const upcoming = upcomingMediaIds(room);
+  const accepted: NewQueueItem[] = [];
+
+  items.forEach((item, i) => {
+    const mediaId = canonicalMediaId(item.url);
+    const play = recent.get(mediaId);
+    const problem = trackError(room, item, upcoming) || (play ? repeatMessage(room, play, now) : null);
+    if (problem) {
+      failures.push({ line: tracks[i].line, input: item.url, reason: problem });
+      return;
+    }
+    // Later copies in the same batch count as duplicates
+    upcoming.add(mediaId);
+    accepted.push(item);
+  });
+
+  if (accepted.length === 0) {
+    return { added: 0, error: failures.length > 0 ? undefined : 'No tracks found' };
+  }
+
+  // Titled imports and playlist tracks skip the lookup; take artwork from the cache
+  const known = await cachedMetadata(accepted.map((item) => item.providerId!));
+  for (const item of accepted) {
+    const metadata = known.get(item.providerId!);
+    item.author = item.author ?? metadata?.author ?? null;
+    item.thumbnailUrl = item.thumbnailUrl ?? metadata?.thumbnailUrl ?? null;
+  }
+
+  const submitter = { userId, isAnonymous: !!(socket.data as any).isAnonymous };
+  const refused = submitterError(room, submitter, accepted.length, now);
+  if (refused) return { added: 0, error: refused };
+
+  recordSubmission(room, userId, now);
+  await enqueueItems(io, room, userId, accepted);
+  return { added: accepted.length };
+}
 
 export function registerQueueHandlers(io: Server, socket: Socket): void {
   // Add a video to the queue
-  socket.on('addVideo', async (data: { url: string }) => {
+  socket.on('addVideo', async (data: { url: string; startAt?: number; endAt?: number }) => {
     const currentRoom = (socket.data as any).currentRoom as string | undefined;
     if (!currentRoom) {
       socket.emit('error', { message: 'Not in a room' });
@@ -14,7 +202,13 @@ export function registerQueueHandlers(io: Server, socket: Socket): void {
 
     const url = data.url?.trim();
     if (!url || !isValidVideoUrl(url)) {
-      socket.emit('error', { message: 'Invalid video URL. Supported: YouTube, SoundCloud' });
+      socket.emit('error', { message: `Invalid video URL. Supported: ${supportedProviderNames()}` });
+      return;
+    }
+
+    const clip = resolveClipRange(url, data.startAt, data.endAt);
+    if (typeof clip === 'string') {
+      socket.emit('error', { message: clip });
       return;
     }
 
@@ -29,54 +223,198 @@ export function registerQueueHandlers(io: Server, socket: Socket): void {
         return;
       }
 
-      const videoItem = {
-        url: videoInfo.url,
-        title: videoInfo.title,
-        duration: videoInfo.duration,
-        addedBy: { _id: userId, username },
-        upvotes: [] as string[],
-        downvotes: [] as string[],
-      };
-
-      room.queue.push(videoItem as any);
-      await room.save();
+      const videoItem = newQueueItem(videoInfo, clip, { _id: userId, username });
 
-      io.to(currentRoom).emit('queueUpdated', { queue: room.queue });
-
-      // If nothing is currently playing, start this video
-      if (!room.currentVideo) {
-        await advanceQueue(io, currentRoom);
+      const refused =
+        submissionError(room, { userId, isAnonymous: !!(socket.data as any).isAnonymous }, [videoItem]) ||
+        (await repeatError(room, [videoItem]));
+      if (refused) {
+        socket.emit('error', { message: refused });
+        return;
       }
+      recordSubmission(room, userId);
+      await enqueueItems(io, room, userId, [videoItem]);
 
-      console.log(`[Queue] ${username} added "${videoInfo.title}" to ${currentRoom}`);
+      const where = room.settings.queueMode === 'booth' ? 'their DJ queue in ' : '';
+      console.log(`[Queue] ${username} added "${videoInfo.title}" to ${where}${currentRoom}`);
     } catch (error) {
       console.error('[Queue] addVideo error:', error);
       socket.emit('error', { message: 'Failed to add video' });
     }
   });
 
+  // Add many tracks at once from an M3U/M3U8 file, a url list or a JSON export
+  socket.on('addVideos', async (data: { content: string; format?: ImportFormat }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) {
+      socket.emit('error', { message: 'Not in a room' });
+      return;
+    }
+
+    // Every outcome, good or bad, goes back as one importResult
+    const finish = (added: number, failures: ImportFailure[], error?: string) => {
+      failures.sort((a, b) => a.line - b.line);
+      socket.emit('importResult', { added, failures, error });
+    };
+
+    const content = data?.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      finish(0, [], 'Nothing to import');
+      return;
+    }
+    if (content.length > MAX_IMPORT_LENGTH) {
+      finish(0, [], 'That file is too large to import');
+      return;
+    }
+
+    const format = IMPORT_FORMATS.includes(data.format as ImportFormat) ? data.format : undefined;
+    const parsed = parseImport(content, format);
+    const failures = [...parsed.failures];
+    if (parsed.entries.length > MAX_IMPORT_ENTRIES) {
+      finish(0, failures, `Imports are limited to ${MAX_IMPORT_ENTRIES} tracks`);
+      return;
+    }
+
+    const candidates: { entry: ImportEntry; clip: ClipRange }[] = [];
+    for (const entry of parsed.entries) {
+      if (!isValidVideoUrl(entry.url)) {
+        failures.push({ line: entry.line, input: entry.url, reason: 'Not a supported media URL' });
+        continue;
+      }
+      const clip = resolveClipRange(entry.url, entry.startAt, entry.endAt);
+      if (typeof clip === 'string') {
+        failures.push({ line: entry.line, input: entry.url, reason: clip });
+        continue;
+      }
+      candidates.push({ entry, clip });
+    }
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const username = (socket.data as any).username as string;
+
+      // Turn away a guest, a submitter on cooldown or one at their limit
+      // before making any lookups for them; addBatch checks the real count
+      if (candidates.length > 0) {
+        const room = await Room.findOne({ slug: currentRoom });
+        if (!room) {
+          finish(0, failures, 'Room not found');
+          return;
+        }
+        const refused = submitterError(room, { userId, isAnonymous: !!(socket.data as any).isAnonymous }, 1);
+        if (refused) {
+          finish(0, failures, refused);
+          return;
+        }
+      }
+
+      // Titles from the file save a lookup; the rest go out a few at a time
+      const infos: VideoInfo[] = [];
+      for (let i = 0; i < candidates.length; i += IMPORT_LOOKUP_BATCH) {
+        const batch = candidates.slice(i, i + IMPORT_LOOKUP_BATCH);
+        infos.push(
+          ...(await Promise.all(
+            batch.map(({ entry }) =>
+              entry.title ? { url: entry.url, title: entry.title, duration: 0 } : fetchVideoInfo(entry.url)
+            )
+          ))
+        );
+      }
+
+      const outcome = await addBatch(
+        io,
+        socket,
+        currentRoom,
+        candidates.map(({ entry, clip }, i) => ({ line: entry.line, info: infos[i], clip })),
+        failures
+      );
+      finish(outcome.added, failures, outcome.error);
+      if (outcome.added === 0) return;
+
+      console.log(
+        `[Queue] ${username} imported ${outcome.added} track(s) (${parsed.format}, ${failures.length} failed) to ${currentRoom}`
+      );
+    } catch (error) {
+      console.error('[Queue] addVideos error:', error);
+      finish(0, failures, 'Failed to import tracks');
+    }
+  });
+
+  // Queue tracks from one of the user's saved playlists (all of them, or the given ones)
+  socket.on('queuePlaylist', async (data: { playlistId: string; trackIds?: string[] }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) {
+      socket.emit('error', { message: 'Not in a room' });
+      return;
+    }
+
+    const playlistId = data?.playlistId;
+    const failures: ImportFailure[] = [];
+    const finish = (added: number, error?: string) => {
+      failures.sort((a, b) => a.line - b.line);
+      socket.emit('playlistQueued', { playlistId, added, failures, error });
+    };
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const playlist = mongoose.isValidObjectId(playlistId)
+        ? await Playlist.findOne({ _id: playlistId, ownerId: userId })
+        : null;
+      if (!playlist) {
+        finish(0, 'Playlist not found');
+        return;
+      }
+
+      const wanted = Array.isArray(data.trackIds) ? new Set(data.trackIds.map(String)) : null;
+      const tracks: BatchTrack[] = [];
+      playlist.tracks.forEach((track, index) => {
+        if (wanted && !wanted.has(String(track._id))) return;
+        tracks.push({
+          line: index + 1,
+          info: { url: track.url, title: track.title, duration: track.duration },
+          clip: { startAt: track.startAt, endAt: track.endAt },
+        });
+      });
+
+      if (tracks.length > MAX_IMPORT_ENTRIES) {
+        finish(0, `You can queue up to ${MAX_IMPORT_ENTRIES} tracks at once`);
+        return;
+      }
+
+      const outcome = await addBatch(io, socket, currentRoom, tracks, failures);
+      finish(outcome.added, outcome.error);
+
+      if (outcome.added > 0) {
+        const username = (socket.data as any).username as string;
+        console.log(`[Queue] ${username} queued ${outcome.added} track(s) from "${playlist.name}" in ${currentRoom}`);
+      }
+    } catch (error) {
+      console.error('[Queue] queuePlaylist error:', error);
+      finish(0, 'Failed to queue playlist');
+    }
+  });
+
   // Vote on a video in the queue
-  socket.on('vote', async (data: { videoIndex: number; type: 'up' | 'down' }) => {
+  socket.on('vote', async (data: { itemId: string; type: 'up' | 'down' }) => {
     const currentRoom = (socket.data as any).currentRoom as string | undefined;
     if (!currentRoom) {
       socket.emit('error', { message: 'Not in a room' });
       return;
     }
 
-    const { videoIndex, type } = data;
+    const { itemId, type } = data || ({} as { itemId: string; type: 'up' | 'down' });
     const userId = (socket.data as any).userId as string;
 
     try {
       const room = await Room.findOne({ slug: currentRoom });
       if (!room) return;
 
-      if (videoIndex < 0 || videoIndex >= room.queue.length) {
-        socket.emit('error', { message: 'Invalid video index' });
+      const video = findQueueItem(room, itemId);
+      if (!video) {
+        socket.emit('error', { message: STALE_ITEM_MESSAGE });
         return;
       }
 
-      const video = room.queue[videoIndex];
-
       // Remove user from both arrays first (toggle behavior)
       video.upvotes = video.upvotes.filter((id) => id !== userId);
       video.downvotes = video.downvotes.filter((id) => id !== userId);
@@ -88,23 +426,42 @@ export function registerQueueHandlers(io: Server, socket: Socket): void {
         video.downvotes.push(userId);
       }
 
+      // In vote-ranked rooms this can move the item
+      applyQueueOrder(room);
       await room.save();
-      io.to(currentRoom).emit('queueUpdated', { queue: room.queue });
+      emitQueuePatch(io, room, { upserts: [video] });
     } catch (error) {
       console.error('[Queue] vote error:', error);
       socket.emit('error', { message: 'Failed to vote' });
     }
   });
 
-  // Report video duration from client
-  socket.on('reportDuration', async (data: { duration: number }) => {
+  // Full queue, for a client whose patches got out of step
+  socket.on('getQueue', async () => {
     const currentRoom = (socket.data as any).currentRoom as string | undefined;
     if (!currentRoom) return;
 
-    const { duration } = data;
-    if (typeof duration === 'number' && duration > 0) {
-      const { handleDurationReport } = await import('./timerService');
-      handleDurationReport(io, currentRoom, duration);
+    try {
+      const room = await Room.findOne({ slug: currentRoom }).select('queue');
+      if (room) socket.emit('queueUpdated', { queue: room.queue });
+    } catch (error) {
+      console.error('[Queue] getQueue error:', error);
+    }
+  });
+
+  // Report video duration from client; it only counts once enough clients agree
+  socket.on('reportDuration', async (data: { url: string; duration: number; playId?: string | null }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    const { url, duration, playId } = data;
+    if (typeof url !== 'string' || !isPlausibleDuration(duration)) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      await handleDurationReport(io, currentRoom, userId, url, duration, typeof playId === 'string' ? playId : null);
+    } catch (error) {
+      console.error('[Queue] reportDuration error:', error);
     }
   });
 }
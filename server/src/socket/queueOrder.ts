@@ -0,0 +1,152 @@
+import { IRoom, IVideoItem, QueueMode } from '../models/Room';
+
+const addedTime = (item: IVideoItem) => (item.addedAt ? new Date(item.addedAt).getTime() : 0);
+const netVotes = (item: IVideoItem) => item.upvotes.length - item.downvotes.length;
+
+/**
+ * Round robin over submitters: everyone's first pick, then everyone's
+ * second, and so on. Within a round, submitters go in the order they first
+ * queued something, except that whoever is playing right now goes last.
+ */
+function fairShare(queue: IVideoItem[], playingSubmitterId?: string): IVideoItem[] {
+  const bySubmitter = new Map<string, IVideoItem[]>();
+  for (const item of [...queue].sort((a, b) => addedTime(a) - addedTime(b))) {
+    const list = bySubmitter.get(item.addedBy._id) || [];
+    list.push(item);
+    bySubmitter.set(item.addedBy._id, list);
+  }
+
+  const submitters = Array.from(bySubmitter.keys());
+  if (playingSubmitterId && bySubmitter.has(playingSubmitterId)) {
+    submitters.splice(submitters.indexOf(playingSubmitterId), 1);
+    submitters.push(playingSubmitterId);
+  }
+
+  const ordered: IVideoItem[] = [];
+  for (let round = 0; ordered.length < queue.length; round++) {
+    for (const id of submitters) {
+      const item = bySubmitter.get(id)![round];
+      if (item) ordered.push(item);
+    }
+  }
+  return ordered;
+}
+
+const byAddOrder = (queue: IVideoItem[]) => [...queue].sort((a, b) => addedTime(a) - addedTime(b));
+
+/**
+ * Modes where the queue keeps the order it is stored in: add order, plus
+ * any moves a moderator made. The other modes compute their order.
+ */
+export function isManualOrder(mode: QueueMode): boolean {
+  return mode === 'fifo' || mode === 'booth';
+}
+
+/** The queue in play order for a mode; the first item plays next. */
+export function orderQueue(queue: IVideoItem[], mode: QueueMode, playingSubmitterId?: string): IVideoItem[] {
+  switch (mode) {
+    case 'votes':
+      // Stable sort, so equal scores keep their add order
+      return [...queue].sort((a, b) => netVotes(b) - netVotes(a) || addedTime(a) - addedTime(b));
+    case 'fair':
+      return fairShare(queue, playingSubmitterId);
+    default:
+      return [...queue];
+  }
+}
+
+/** Re-sort a room's queue in place according to its queue mode. */
+export function applyQueueOrder(room: IRoom): void {
+  const mode = room.settings?.queueMode || 'fifo';
+  room.queue = orderQueue(room.queue, mode, room.currentVideo?.addedBy._id);
+}
+
+/**
+ * Re-sort after a mode change; leaving a ranked mode goes back to add order.
+ * Leaving the booth moves the DJs' tracks into the shared queue.
+ */
+export function applyModeChange(room: IRoom, previousMode: QueueMode): void {
+  if (previousMode === 'booth' && room.settings.queueMode !== 'booth') {
+    mergeBoothQueues(room);
+  }
+
+  if (isManualOrder(room.settings.queueMode) && !isManualOrder(previousMode)) {
+    room.queue = byAddOrder(room.queue);
+  } else {
+    applyQueueOrder(room);
+  }
+}
+
+/** Move a queue item to `position` (0 = plays next). */
+export function moveQueueItem(room: IRoom, item: IVideoItem, position: number): void {
+  const rest = room.queue.filter((other) => other !== item);
+  rest.splice(position, 0, item);
+  room.queue = rest;
+}
+
+// --- DJ booth rotation ---
+
+export function getDjQueue(room: IRoom, userId: string): IVideoItem[] | undefined {
+  return room.djQueues.find((q) => q.userId === userId)?.items;
+}
+
+/** The track the booth would play next, without changing anything. */
+function peekBoothTrack(room: IRoom): IVideoItem | null {
+  for (const dj of room.waitlist) {
+    const items = getDjQueue(room, dj.userId);
+    if (items && items.length > 0) return items[0];
+  }
+  return null;
+}
+
+/**
+ * Take the first track of the next DJ in the waitlist and move that DJ to
+ * the back. DJs with nothing left to play drop off the waitlist on the way.
+ */
+function takeBoothTrack(room: IRoom): IVideoItem | null {
+  while (room.waitlist.length > 0) {
+    const dj = room.waitlist.shift()!;
+    const items = getDjQueue(room, dj.userId);
+    if (items && items.length > 0) {
+      room.waitlist.push({ userId: dj.userId, username: dj.username });
+      return items.shift()!;
+    }
+  }
+  return null;
+}
+
+/**
+ * Empty the booth: the DJs' tracks go ahead of the shared queue in the
+ * order the rotation would have played them, then those of DJs who had
+ * left the waitlist. Nothing outside booth mode reads the waitlist or DJ
+ * queues, so tracks left there would never play.
+ */
+function mergeBoothQueues(room: IRoom): void {
+  const merged: IVideoItem[] = [];
+  for (let track = takeBoothTrack(room); track; track = takeBoothTrack(room)) {
+    merged.push(track);
+  }
+  for (const dj of room.djQueues) merged.push(...dj.items);
+
+  room.queue = [...merged, ...room.queue];
+  room.waitlist = [];
+  room.djQueues = [];
+}
+
+/** What plays after the current track. Booth rooms fall back to the shared queue. */
+export function peekNextTrack(room: IRoom): IVideoItem | null {
+  if (room.settings?.queueMode === 'booth') {
+    const track = peekBoothTrack(room);
+    if (track) return track;
+  }
+  return room.queue[0] ?? null;
+}
+
+/** Remove and return the next track to play (queue must already be in play order). */
+export function takeNextTrack(room: IRoom): IVideoItem | null {
+  if (room.settings?.queueMode === 'booth') {
+    const track = takeBoothTrack(room);
+    if (track) return track;
+  }
+  return room.queue.shift() ?? null;
+}
@@ -0,0 +1,149 @@
+import { Server, Socket } from 'socket.io';
+import { Room, IRoom, ICurrentVideo } from '../models/Room';
+import { User } from '../models/User';
+import { getRoomUsers } from './roomHandlers';
+import { advanceQueue, stopVideoTimer } from './timerService';
+
+type ReactionType = 'woot' | 'meh' | 'grab';
+
+function emitReactions(io: Server, slug: string, video: ICurrentVideo): void {
+  io.to(slug).emit('reactionsUpdated', {
+    url: video.url,
+    woots: video.woots,
+    mehs: video.mehs,
+    grabs: video.grabs,
+  });
+}
+
+/** Adjust the submitter's karma; listeners reacting to their own track don't count. */
+async function creditSubmitter(video: ICurrentVideo, reactorId: string, delta: Partial<Record<'woots' | 'mehs' | 'grabs', number>>): Promise<void> {
+  // Auto-picked tracks have nobody to credit
+  if (video.autoPicked || video.addedBy._id === reactorId) return;
+
+  const inc: Record<string, number> = {};
+  for (const [key, value] of Object.entries(delta)) {
+    if (value) inc[`karma.${key}`] = value;
+  }
+  if (Object.keys(inc).length > 0) {
+    await User.updateOne({ _id: video.addedBy._id }, { $inc: inc });
+  }
+}
+
+/**
+ * Skip the track once the share of present listeners who meh'd it is over
+ * the room's threshold. Only the first crossing skips, even with mehs
+ * landing on several instances at once.
+ */
+async function checkMehSkip(io: Server, room: IRoom): Promise<void> {
+  const video = room.currentVideo;
+  const threshold = room.settings.mehSkipFraction || 0;
+  if (!video || threshold <= 0) return;
+
+  const present = new Set((await getRoomUsers(io, room.slug)).map((u) => u._id));
+  if (present.size === 0) return;
+
+  const mehCount = video.mehs.filter((id) => present.has(id)).length;
+  if (mehCount / present.size <= threshold) return;
+
+  const claimed = await Room.updateOne(
+    {
+      slug: room.slug,
+      'currentVideo.url': video.url,
+      'currentVideo.historyId': video.historyId,
+      'currentVideo.mehSkipped': { $ne: true },
+    },
+    { $set: { 'currentVideo.mehSkipped': true } }
+  );
+  if (claimed.modifiedCount === 0) return;
+
+  stopVideoTimer(room.slug);
+  await advanceQueue(io, room.slug, { skipped: true });
+  console.log(`[Reactions] Room ${room.slug}: skipped "${video.title}" (${mehCount}/${present.size} meh)`);
+}
+
+/** Copy the playing track into the user's saved list and count the grab. */
+async function grabTrack(io: Server, socket: Socket, slug: string, video: ICurrentVideo, userId: string): Promise<void> {
+  if (video.grabs.includes(userId)) {
+    socket.emit('error', { message: 'You already grabbed this track' });
+    return;
+  }
+
+  const updated = await Room.findOneAndUpdate(
+    { slug, 'currentVideo.url': video.url, 'currentVideo.historyId': video.historyId },
+    { $addToSet: { 'currentVideo.grabs': userId } },
+    { new: true }
+  );
+  if (!updated?.currentVideo) return;
+
+  // Saved once per url, however many times it is grabbed
+  await User.updateOne(
+    { _id: userId, 'savedTracks.url': { $ne: video.url } },
+    { $push: { savedTracks: { url: video.url, title: video.title, duration: video.duration, savedAt: new Date() } } }
+  );
+
+  emitReactions(io, slug, updated.currentVideo);
+  await creditSubmitter(video, userId, { grabs: 1 });
+
+  console.log(`[Reactions] ${(socket.data as any).username} grabbed "${video.title}" in ${slug}`);
+}
+
+export function registerReactionHandlers(io: Server, socket: Socket): void {
+  // Woot or meh the playing track (sending the same one again takes it back), or grab it
+  socket.on('react', async (data: { type: ReactionType }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    const type = data?.type;
+    if (type !== 'woot' && type !== 'meh' && type !== 'grab') {
+      socket.emit('error', { message: 'Invalid reaction' });
+      return;
+    }
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      const video = room?.currentVideo;
+      if (!room || !video) {
+        socket.emit('error', { message: 'Nothing is playing' });
+        return;
+      }
+
+      if (type === 'grab') {
+        await grabTrack(io, socket, currentRoom, video, userId);
+        return;
+      }
+
+      const list = type === 'woot' ? 'woots' : 'mehs';
+      const other = type === 'woot' ? 'mehs' : 'woots';
+      const had = video[list].includes(userId);
+      const hadOther = video[other].includes(userId);
+
+      // Guarded on the play so a reaction can't land on the next track, even
+      // a replay of the same url
+      const updated = await Room.findOneAndUpdate(
+        { slug: currentRoom, 'currentVideo.url': video.url, 'currentVideo.historyId': video.historyId },
+        had
+          ? { $pull: { [`currentVideo.${list}`]: userId } }
+          : {
+              $addToSet: { [`currentVideo.${list}`]: userId },
+              $pull: { [`currentVideo.${other}`]: userId },
+            },
+        { new: true }
+      );
+      if (!updated?.currentVideo) return;
+
+      emitReactions(io, currentRoom, updated.currentVideo);
+      await creditSubmitter(video, userId, {
+        [list]: had ? -1 : 1,
+        [other]: hadOther ? -1 : 0,
+      });
+
+      if (type === 'meh' && !had) {
+        await checkMehSkip(io, updated);
+      }
+    } catch (error) {
+      console.error('[Reactions] react error:', error);
+      socket.emit('error', { message: 'Failed to react' });
+    }
+  });
+}
@@ -2,7 +2,11 @@ import { Server, Socket } from 'socket.io';
 import bcrypt from 'bcryptjs';
 import { Room } from '../models/Room';
 import { User } from '../models/User';
-import { getPlaybackState } from './timerService';
+import { getPlaybackState } from './playbackClock';
+import { electLeader } from './leaderHandlers';
+import { autoPauseIfEmpty, resumeAutoPausedRoom, advanceQueue } from './timerService';
+import { removeFromWaitlist } from './djBoothHandlers';
+import { getDjQueue } from './queueOrder';
 
 export interface RoomUser {
   _id: string;
@@ -11,42 +15,48 @@ export interface RoomUser {
   isAnonymous: boolean;
 }
 
-// In-memory presence: roomSlug -> Map<socketId, RoomUser>
-const roomPresence = new Map<string, Map<string, RoomUser>>();
+// Presence is derived from Socket.IO room membership: each joined socket
+// carries its RoomUser in socket.data, and fetchSockets() goes through the
+// adapter, so the result is cluster-wide when several instances are running.
 
-export function getRoomUsers(slug: string): RoomUser[] {
-  const users = roomPresence.get(slug);
-  if (!users) return [];
+export async function getRoomUsers(io: Server, slug: string): Promise<RoomUser[]> {
+  const sockets = await io.in(slug).fetchSockets();
   // Deduplicate by userId (a user may have multiple tabs)
   const unique = new Map<string, RoomUser>();
-  users.forEach((u) => unique.set(u._id, u));
+  for (const s of sockets) {
+    const roomUser = (s.data as any).roomUser as RoomUser | undefined;
+    if (roomUser) unique.set(roomUser._id, roomUser);
+  }
   return Array.from(unique.values());
 }
 
-export function getRoomUserCount(slug: string): number {
-  return getRoomUsers(slug).length;
+export async function getRoomUserCount(io: Server, slug: string): Promise<number> {
+  return (await getRoomUsers(io, slug)).length;
 }
 
-export function getAllRoomCounts(): Record<string, number> {
+export async function getAllRoomCounts(io: Server): Promise<Record<string, number>> {
+  const sockets = await io.fetchSockets();
+  const usersByRoom = new Map<string, Set<string>>();
+
+  for (const s of sockets) {
+    const roomUser = (s.data as any).roomUser as RoomUser | undefined;
+    // Only the room a socket joined; it also sits in its own and its user's channels
+    const slug = (s.data as any).currentRoom as string | undefined;
+    if (!roomUser || !slug) continue;
+    if (!usersByRoom.has(slug)) usersByRoom.set(slug, new Set());
+    usersByRoom.get(slug)!.add(roomUser._id);
+  }
+
   const counts: Record<string, number> = {};
-  roomPresence.forEach((_users, slug) => {
-    counts[slug] = getRoomUserCount(slug);
+  usersByRoom.forEach((users, slug) => {
+    counts[slug] = users.size;
   });
   return counts;
 }
 
-export function isUserInRoom(slug: string, userId: string): boolean {
-  const users = roomPresence.get(slug);
-  if (!users) return false;
-  for (const u of users.values()) {
-    if (u._id === userId) return true;
-  }
-  return false;
-}
-
-/** Remove all presence data for a room (used when room is deleted). */
-export function clearRoomPresence(slug: string): void {
-  roomPresence.delete(slug);
+export async function isUserInRoom(io: Server, slug: string, userId: string): Promise<boolean> {
+  const users = await getRoomUsers(io, slug);
+  return users.some((u) => u._id === userId);
 }
 
 export function registerRoomHandlers(io: Server, socket: Socket): void {
@@ -58,7 +68,7 @@ export function registerRoomHandlers(io: Server, socket: Socket): void {
       // Leave any previous room
       const prevRoom = (socket.data as any).currentRoom as string | undefined;
       if (prevRoom) {
-        leaveRoom(io, socket, prevRoom);
+        await leaveRoom(io, socket, prevRoom);
       }
 
       // Verify room exists (include password field for comparison)
@@ -89,15 +99,6 @@ export function registerRoomHandlers(io: Server, socket: Socket): void {
         return;
       }
 
-      // Join socket.io room
-      socket.join(roomSlug);
-      (socket.data as any).currentRoom = roomSlug;
-
-      // Add to presence
-      if (!roomPresence.has(roomSlug)) {
-        roomPresence.set(roomSlug, new Map());
-      }
-
       const roomUser: RoomUser = {
         _id: user._id.toString(),
         username: user.username,
@@ -105,22 +106,53 @@ export function registerRoomHandlers(io: Server, socket: Socket): void {
         isAnonymous: user.isAnonymous,
       };
 
-      roomPresence.get(roomSlug)!.set(socket.id, roomUser);
+      // Join socket.io room (this is also what registers presence)
+      (socket.data as any).roomUser = roomUser;
+      (socket.data as any).currentRoom = roomSlug;
+      socket.join(roomSlug);
+
+      // The host (or a mod, if the leader is gone) picks up playback control
+      const leaderId = await electLeader(io, roomSlug);
 
-      // Send full room state to joining user (include playback state for sync)
-      const playbackState = getPlaybackState(roomSlug);
+      // First listener back in a room that paused itself when it emptied
+      if (room.currentVideo?.autoPaused) {
+        await resumeAutoPausedRoom(io, roomSlug);
+      }
+
+      // Send full room state to joining user (include playback state for sync).
+      // The clock lives in memory on the owning instance; other instances
+      // fall back to the persisted state.
+      const playbackState = getPlaybackState(roomSlug, room.currentVideo);
+      const roomJson = room.toJSON() as Record<string, any>;
+      if (roomJson.currentVideo) {
+        // The persisted startedAt may lag the clock (write-behind, just resumed)
+        roomJson.currentVideo.startedAt = new Date(playbackState.startedAt);
+      }
       socket.emit('roomState', {
-        room: room.toJSON(),
-        users: getRoomUsers(roomSlug),
+        room: { ...roomJson, leaderId },
+        users: await getRoomUsers(io, roomSlug),
         playbackState: {
           isPaused: playbackState.isPaused,
           pausedAt: playbackState.pausedAt,
+          playbackRate: playbackState.playbackRate,
         },
+        serverTime: Date.now(),
       });
+      // Personal DJ queues are left out of the room JSON; send this user theirs
+      socket.emit('djQueueUpdated', { roomSlug, queue: getDjQueue(room, userId) || [] });
 
       // Broadcast to others
       socket.to(roomSlug).emit('userJoined', { user: roomUser });
 
+      // Autoplay waits for listeners; start it when the first one arrives
+      if (
+        !room.currentVideo &&
+        room.settings.fallbackMode !== 'off' &&
+        (await getRoomUserCount(io, roomSlug)) === 1
+      ) {
+        await advanceQueue(io, roomSlug, { onlyIfPlayable: true });
+      }
+
       console.log(`[Socket] ${user.username} joined room ${roomSlug}`);
     } catch (error) {
       console.error('[Socket] joinRoom error:', error);
@@ -128,41 +160,45 @@ export function registerRoomHandlers(io: Server, socket: Socket): void {
     }
   });
 
-  socket.on('leaveRoom', () => {
-    const currentRoom = (socket.data as any).currentRoom as string | undefined;
-    if (currentRoom) {
-      leaveRoom(io, socket, currentRoom);
+  socket.on('leaveRoom', async () => {
+    try {
+      const currentRoom = (socket.data as any).currentRoom as string | undefined;
+      if (currentRoom) {
+        await leaveRoom(io, socket, currentRoom);
+      }
+    } catch (error) {
+      console.error('[Room] leaveRoom error:', error);
     }
   });
 
-  socket.on('disconnect', () => {
-    const currentRoom = (socket.data as any).currentRoom as string | undefined;
-    if (currentRoom) {
-      leaveRoom(io, socket, currentRoom);
+  socket.on('disconnect', async () => {
+    try {
+      const currentRoom = (socket.data as any).currentRoom as string | undefined;
+      if (currentRoom) {
+        await leaveRoom(io, socket, currentRoom);
+      }
+    } catch (error) {
+      console.error('[Room] disconnect cleanup error:', error);
     }
   });
 }
 
-function leaveRoom(io: Server, socket: Socket, slug: string): void {
-  const users = roomPresence.get(slug);
-  if (!users) return;
-
-  const user = users.get(socket.id);
-  users.delete(socket.id);
-
-  // Clean up empty rooms
-  if (users.size === 0) {
-    roomPresence.delete(slug);
-  }
+async function leaveRoom(io: Server, socket: Socket, slug: string): Promise<void> {
+  const user = (socket.data as any).roomUser as RoomUser | undefined;
 
   socket.leave(slug);
   (socket.data as any).currentRoom = undefined;
+  (socket.data as any).roomUser = undefined;
 
   if (user) {
     // Only broadcast if user has no other tabs in this room
-    const stillPresent = isUserInRoom(slug, user._id);
+    const stillPresent = await isUserInRoom(io, slug, user._id);
     if (!stillPresent) {
       io.to(slug).emit('userLeft', { user });
+      await electLeader(io, slug);
+      // Only DJs who are around keep their spot in line
+      await removeFromWaitlist(io, slug, user._id);
+      await autoPauseIfEmpty(io, slug);
     }
     console.log(`[Socket] ${user.username} left room ${slug}`);
   }
@@ -0,0 +1,128 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import { Server } from 'socket.io';
+import { RoomLease } from '../models/RoomLease';
+
+/** Unique id of this server instance within the cluster. */
+export const INSTANCE_ID =
+  process.env.INSTANCE_ID ||
+  `${os.hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+
+// A lease must be renewed within this window or another instance may take over
+export const LEASE_TTL_MS = 15000;
+
+// Rooms whose timers this instance currently runs
+const ownedRooms = new Set<string>();
+
+function leaseExpiry(): Date {
+  return new Date(Date.now() + LEASE_TTL_MS);
+}
+
+/** Tell the other instances about an ownership change (no-op on the default adapter). */
+function notifyOwnerChanged(io: Server, slug: string, ownerId: string | null): void {
+  try {
+    io.serverSideEmit('roomOwnerChanged', slug, ownerId);
+  } catch {
+    // single-process adapter: there is nobody to tell
+  }
+}
+
+// An upsert that raced another instance's insert for the same slug
+function isDuplicateKeyError(error: unknown): boolean {
+  return error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+}
+
+export function ownsRoom(slug: string): boolean {
+  return ownedRooms.has(slug);
+}
+
+/** Drop local ownership bookkeeping without touching the shared lease. */
+export function forgetRoom(slug: string): void {
+  ownedRooms.delete(slug);
+}
+
+/**
+ * Take ownership of a room unconditionally. Used when a playback action
+ * (advance, pause/seek, duration report) is handled by this instance.
+ */
+export async function claimRoom(io: Server, slug: string): Promise<void> {
+  // Already ours: the heartbeat keeps the lease alive, no write needed
+  if (ownedRooms.has(slug)) return;
+
+  await RoomLease.updateOne(
+    { slug },
+    { $set: { ownerId: INSTANCE_ID, expiresAt: leaseExpiry() } },
+    { upsert: true }
+  );
+
+  ownedRooms.add(slug);
+  notifyOwnerChanged(io, slug, INSTANCE_ID);
+}
+
+/** Take ownership only if nobody holds a live lease on the room. */
+export async function tryAcquireRoom(slug: string): Promise<boolean> {
+  try {
+    await RoomLease.findOneAndUpdate(
+      { slug, $or: [{ ownerId: INSTANCE_ID }, { expiresAt: { $lte: new Date() } }] },
+      { $set: { ownerId: INSTANCE_ID, expiresAt: leaseExpiry() } },
+      { upsert: true }
+    );
+  } catch (error) {
+    // The upsert lost against a live lease held elsewhere
+    if (isDuplicateKeyError(error)) return false;
+    throw error;
+  }
+
+  ownedRooms.add(slug);
+  return true;
+}
+
+export async function releaseRoom(io: Server, slug: string): Promise<void> {
+  ownedRooms.delete(slug);
+  await RoomLease.deleteOne({ slug });
+  notifyOwnerChanged(io, slug, null);
+}
+
+/**
+ * Give up every room this instance owns, so a restarted or surviving
+ * instance can pick them up right away instead of waiting out the TTL.
+ * Used on graceful shutdown.
+ */
+export async function releaseAllRooms(io: Server): Promise<void> {
+  const slugs = Array.from(ownedRooms);
+  ownedRooms.clear();
+  await RoomLease.deleteMany({ slug: { $in: slugs }, ownerId: INSTANCE_ID });
+  for (const slug of slugs) notifyOwnerChanged(io, slug, null);
+}
+
+/** Authoritative check against the shared lease (used right before advancing). */
+export async function isRoomOwner(slug: string): Promise<boolean> {
+  const lease = await RoomLease.findOne({ slug }).lean();
+  return lease?.ownerId === INSTANCE_ID;
+}
+
+/**
+ * Extend every lease this instance holds.
+ * Returns the rooms whose lease was taken over by another instance.
+ */
+export async function renewOwnedRooms(): Promise<string[]> {
+  const lost: string[] = [];
+
+  for (const slug of Array.from(ownedRooms)) {
+    const result = await RoomLease.updateOne(
+      { slug, ownerId: INSTANCE_ID },
+      { $set: { expiresAt: leaseExpiry() } }
+    );
+    if (result.matchedCount === 0) {
+      ownedRooms.delete(slug);
+      lost.push(slug);
+    }
+  }
+
+  return lost;
+}
+
+/** Slugs of rooms currently owned by a live instance (including this one). */
+export async function getLiveLeaseSlugs(): Promise<string[]> {
+  return RoomLease.find({ expiresAt: { $gt: new Date() } }).distinct('slug');
+}
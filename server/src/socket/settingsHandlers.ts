@@ -0,0 +1,110 @@
+import { Server, Socket } from 'socket.io';
+import mongoose from 'mongoose';
+import { Room, IRoomSettings, QUEUE_MODES, FALLBACK_MODES } from '../models/Room';
+import { Playlist } from '../models/Playlist';
+import { applyModeChange } from './queueOrder';
+import { advanceQueue } from './timerService';
+import { emitWaitlist, emitDjQueue } from './djBoothHandlers';
+
+// Returns an error message for an invalid value, or null when it is acceptable
+type SettingValidator = (value: unknown) => string | null;
+
+const isBoolean = (name: string): SettingValidator => (value) =>
+  typeof value === 'boolean' ? null : `${name} must be on or off`;
+
+const inRange = (name: string, min: number, max: number): SettingValidator => (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? null
+    : `${name} must be between ${min} and ${max}`;
+
+const oneOf = (name: string, options: readonly string[]): SettingValidator => (value) =>
+  typeof value === 'string' && options.includes(value) ? null : `${name} must be one of: ${options.join(', ')}`;
+
+const playlistId = (name: string): SettingValidator => (value) =>
+  value === null || (typeof value === 'string' && mongoose.isValidObjectId(value)) ? null : `${name} is not valid`;
+
+const SETTING_VALIDATORS: Record<keyof IRoomSettings, SettingValidator> = {
+  autoPauseWhenEmpty: isBoolean('Auto-pause'),
+  crossfadeSeconds: inRange('Crossfade', 0, 12),
+  queueMode: oneOf('Queue mode', QUEUE_MODES),
+  mehSkipFraction: inRange('Meh auto-skip', 0, 1),
+  maxQueuedPerUser: inRange('Tracks per person', 0, 50),
+  maxTrackSeconds: inRange('Longest track', 0, 6 * 60 * 60),
+  submitCooldownSeconds: inRange('Cooldown', 0, 60 * 60),
+  guestsCannotQueue: isBoolean('Guest queueing'),
+  repeatWindowMinutes: inRange('Repeat protection', 0, 7 * 24 * 60),
+  fallbackMode: oneOf('Autoplay', FALLBACK_MODES),
+  fallbackPlaylistId: playlistId('Autoplay playlist'),
+};
+
+export function registerSettingsHandlers(io: Server, socket: Socket): void {
+  // Host changes one or more room settings
+  socket.on('updateSettings', async (data: Partial<IRoomSettings>) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      if (room.creatorId.toString() !== userId) {
+        socket.emit('error', { message: 'Only the room host can change room settings' });
+        return;
+      }
+
+      const entries = Object.entries(data || {});
+      for (const [key, value] of entries) {
+        const validate = SETTING_VALIDATORS[key as keyof IRoomSettings];
+        if (!validate) {
+          socket.emit('error', { message: `Unknown room setting: ${key}` });
+          return;
+        }
+        const problem = validate(value);
+        if (problem) {
+          socket.emit('error', { message: problem });
+          return;
+        }
+      }
+
+      // Autoplay can only use the host's own playlists
+      if (data.fallbackPlaylistId) {
+        const owned = await Playlist.exists({ _id: data.fallbackPlaylistId, ownerId: room.creatorId });
+        if (!owned) {
+          socket.emit('error', { message: 'Autoplay playlist not found' });
+          return;
+        }
+      }
+
+      const previousMode = room.settings.queueMode;
+      // DJs whose personal queues get merged if the room leaves booth mode
+      const djIds = room.djQueues.map((queue) => queue.userId);
+      for (const [key, value] of entries) {
+        room.set(`settings.${key}`, value);
+      }
+
+      const reorder = entries.some(([key]) => key === 'queueMode');
+      if (reorder) applyModeChange(room, previousMode);
+      // A new fallback source starts from its beginning
+      const fallbackChanged = entries.some(([key]) => key === 'fallbackMode' || key === 'fallbackPlaylistId');
+      if (fallbackChanged) room.fallbackPosition = 0;
+      await room.save();
+
+      io.to(currentRoom).emit('settingsUpdated', { settings: room.settings });
+      if (reorder) io.to(currentRoom).emit('queueUpdated', { queue: room.queue });
+      if (reorder && previousMode === 'booth' && room.settings.queueMode !== 'booth') {
+        emitWaitlist(io, room);
+        djIds.forEach((userId) => emitDjQueue(io, room, userId));
+      }
+      // Turning autoplay on in a silent room starts it right away
+      if (fallbackChanged && !room.currentVideo && room.settings.fallbackMode !== 'off') {
+        await advanceQueue(io, currentRoom, { onlyIfPlayable: true });
+      }
+      const changed = entries.map(([key]) => key).join(', ');
+      console.log(`[Mod] ${(socket.data as any).username} updated ${changed} in ${currentRoom}`);
+    } catch (error) {
+      console.error('[Settings] updateSettings error:', error);
+      socket.emit('error', { message: 'Failed to update room settings' });
+    }
+  });
+}
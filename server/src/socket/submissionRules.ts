@@ -0,0 +1,166 @@
+import { IRoom, IVideoItem } from '../models/Room';
+import { PlayHistory, IPlayHistory } from '../models/PlayHistory';
+import { canonicalMediaId } from '../utils/videoValidator';
+import { clipLength } from './playbackClock';
+import { getDjQueue } from './queueOrder';
+
+export interface Submitter {
+  userId: string;
+  isAnonymous: boolean;
+}
+
+type Submission = Pick<IVideoItem, 'url' | 'duration' | 'startAt' | 'endAt'>;
+
+function formatLimit(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+/** Tracks the user has waiting to play (their DJ queue in booth rooms). */
+export function queuedCount(room: IRoom, userId: string): number {
+  if (room.settings.queueMode === 'booth') {
+    return getDjQueue(room, userId)?.length || 0;
+  }
+  return room.queue.filter((item) => item.addedBy._id === userId).length;
+}
+
+/**
+ * Canonical ids of everything playing or waiting to play, across all queues.
+ * An auto-picked track doesn't count: it stops for the next submission.
+ */
+export function upcomingMediaIds(room: IRoom): Set<string> {
+  const items: { url: string }[] = [...room.queue, ...room.djQueues.flatMap((dj) => dj.items)];
+  if (room.currentVideo && !room.currentVideo.autoPicked) items.push(room.currentVideo);
+  return new Set(items.map((item) => canonicalMediaId(item.url)));
+}
+
+/** Seconds the user still has to wait before submitting again; 0 when they can. */
+export function cooldownRemaining(room: IRoom, userId: string, now = Date.now()): number {
+  const cooldown = room.settings.submitCooldownSeconds || 0;
+  const last = room.lastSubmissionAt?.get(userId);
+  if (cooldown <= 0 || !last) return 0;
+  return Math.max(0, Math.ceil((new Date(last).getTime() + cooldown * 1000 - now) / 1000));
+}
+
+/**
+ * Check the submitter against the room's rules for adding `count` tracks:
+ * guests, cooldown and the per-user limit. Returns the reason they are
+ * refused, or null.
+ */
+export function submitterError(room: IRoom, submitter: Submitter, count: number, now = Date.now()): string | null {
+  const settings = room.settings;
+
+  if (settings.guestsCannotQueue && submitter.isAnonymous) {
+    return 'Guests cannot add tracks in this room. Sign up to queue music.';
+  }
+
+  const wait = cooldownRemaining(room, submitter.userId, now);
+  if (wait > 0) {
+    return `Please wait ${wait}s before adding another track`;
+  }
+
+  const max = settings.maxQueuedPerUser || 0;
+  if (max > 0 && queuedCount(room, submitter.userId) + count > max) {
+    const left = Math.max(0, max - queuedCount(room, submitter.userId));
+    if (count > 1 && left > 0) {
+      return `You can only add ${left} more track${left === 1 ? '' : 's'} (the limit is ${max} per person)`;
+    }
+    return max === 1
+      ? 'You can only have 1 track in the queue at a time'
+      : `You can only have ${max} tracks in the queue at a time`;
+  }
+
+  return null;
+}
+
+/**
+ * Check one track against the room's rules: no duplicates of anything
+ * playing or queued (`upcoming`, see upcomingMediaIds) and the length limit.
+ * Tracks whose length isn't known yet are checked again once it is.
+ */
+export function trackError(room: IRoom, item: Submission, upcoming = upcomingMediaIds(room)): string | null {
+  if (upcoming.has(canonicalMediaId(item.url))) {
+    return 'That track is already playing or in the queue';
+  }
+  if (exceedsMaxLength(room, item)) {
+    return `Tracks longer than ${formatLimit(room.settings.maxTrackSeconds)} aren't allowed in this room`;
+  }
+  return null;
+}
+
+/** submitterError and trackError together, for a single submission. */
+export function submissionError(
+  room: IRoom,
+  submitter: Submitter,
+  items: Submission[],
+  now = Date.now()
+): string | null {
+  const refused = submitterError(room, submitter, items.length, now);
+  if (refused) return refused;
+
+  const upcoming = upcomingMediaIds(room);
+  for (const item of items) {
+    const problem = trackError(room, item, upcoming);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/** Whether a track plays for longer than the room allows (false while its length is unknown). */
+export function exceedsMaxLength(room: IRoom, item: Pick<IVideoItem, 'duration' | 'startAt' | 'endAt'>): boolean {
+  const max = room.settings.maxTrackSeconds || 0;
+  const length = clipLength(item);
+  return max > 0 && length !== null && length > max;
+}
+
+/**
+ * The latest play within the room's repeat window of each of these tracks,
+ * keyed by canonical media id. Empty when repeat protection is off. Only
+ * submitted plays count; autoplay doesn't block anyone.
+ */
+export async function recentPlays(
+  room: IRoom,
+  items: Pick<IVideoItem, 'url'>[],
+  now = Date.now()
+): Promise<Map<string, IPlayHistory>> {
+  const windowMinutes = room.settings.repeatWindowMinutes || 0;
+  const recent = new Map<string, IPlayHistory>();
+  if (windowMinutes <= 0 || items.length === 0) return recent;
+
+  const plays = await PlayHistory.find({
+    roomId: room._id,
+    mediaId: { $in: items.map((item) => canonicalMediaId(item.url)) },
+    autoPicked: { $ne: true },
+    playedAt: { $gte: new Date(now - windowMinutes * 60 * 1000) },
+  }).sort({ playedAt: -1 });
+
+  for (const play of plays) {
+    if (!recent.has(play.mediaId)) recent.set(play.mediaId, play);
+  }
+  return recent;
+}
+
+/** Why a track from recentPlays can't be queued yet. */
+export function repeatMessage(room: IRoom, play: IPlayHistory, now = Date.now()): string {
+  const windowMs = (room.settings.repeatWindowMinutes || 0) * 60 * 1000;
+  const playedAt = play.playedAt.getTime();
+  const ago = Math.floor((now - playedAt) / 60000);
+  const wait = Math.max(1, Math.ceil((playedAt + windowMs - now) / 60000));
+  return `"${play.title}" was played ${ago > 0 ? `${ago} min ago` : 'just now'}. It can be queued again in ${wait} min`;
+}
+
+/**
+ * Refuse tracks the room played within its repeat window. Separate from
+ * submissionError because it has to look at the play history.
+ */
+export async function repeatError(room: IRoom, items: Submission[], now = Date.now()): Promise<string | null> {
+  const recent = await recentPlays(room, items, now);
+  const [play] = recent.values();
+  return play ? repeatMessage(room, play, now) : null;
+}
+
+/** Start the user's cooldown; saved with the room. */
+export function recordSubmission(room: IRoom, userId: string, now = Date.now()): void {
+  room.lastSubmissionAt.set(userId, new Date(now));
+}
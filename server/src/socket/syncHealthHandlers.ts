@@ -0,0 +1,147 @@
+import { Server, Socket } from 'socket.io';
+import { Room } from '../models/Room';
+import { PlaybackClock, getClock, getPlaybackState } from './playbackClock';
+import { isHostOrMod } from './permissions';
+import { ClockStats } from './clockHandlers';
+import { RoomUser } from './roomHandlers';
+
+// What a client's player was doing at a given moment
+export interface SyncReport {
+  url: string;
+  position: number;   // seconds into the track
+  buffering: boolean;
+  serverTime: number; // server clock (epoch ms, client estimate) when sampled
+}
+
+export interface SyncHealthEntry {
+  socketId: string;
+  userId: string;
+  username: string;
+  drift: number | null; // seconds ahead (+) or behind (-) the room; null when unknown
+  buffering: boolean;
+  reportAge: number | null; // ms since the last report
+  rtt: number | null;
+}
+
+// Reports older than this no longer say anything about the player
+const STALE_REPORT_MS = 15000;
+
+// Clients whose estimate of server time is further off than this are not trusted
+const MAX_CLOCK_ERROR_MS = 10000;
+
+function isValidReport(data: any): data is SyncReport {
+  return (
+    typeof data?.url === 'string' &&
+    typeof data.position === 'number' &&
+    Number.isFinite(data.position) &&
+    typeof data.serverTime === 'number' &&
+    Number.isFinite(data.serverTime)
+  );
+}
+
+/**
+ * Drift telemetry: clients periodically report their player position, and
+ * moderators can see how far each listener is from the room's playback
+ * clock and force a resync on a single socket.
+ */
+export function registerSyncHealthHandlers(io: Server, socket: Socket): void {
+  socket.on('syncReport', (data: SyncReport) => {
+    if (!(socket.data as any).currentRoom || !isValidReport(data)) return;
+
+    const receivedAt = Date.now();
+    const serverTime =
+      Math.abs(data.serverTime - receivedAt) > MAX_CLOCK_ERROR_MS ? receivedAt : data.serverTime;
+
+    (socket.data as any).syncReport = {
+      url: data.url,
+      position: data.position,
+      buffering: Boolean(data.buffering),
+      serverTime,
+    } as SyncReport;
+  });
+
+  // Moderator asks for the current sync state of every listener
+  socket.on('getSyncHealth', async () => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room || !isHostOrMod(room, userId)) return;
+
+      // The owner's in-memory clock when it lives here, the persisted state otherwise
+      const video = room.currentVideo;
+      const clock = video ? getClock(currentRoom) ?? new PlaybackClock(video) : null;
+
+      const now = Date.now();
+      const sockets = await io.in(currentRoom).fetchSockets();
+      const entries: SyncHealthEntry[] = [];
+
+      for (const s of sockets) {
+        const roomUser = (s.data as any).roomUser as RoomUser | undefined;
+        if (!roomUser) continue;
+
+        const report = (s.data as any).syncReport as SyncReport | undefined;
+        const stats = (s.data as any).clock as ClockStats | undefined;
+        const fresh = report && now - report.serverTime <= STALE_REPORT_MS ? report : undefined;
+
+        entries.push({
+          socketId: s.id,
+          userId: roomUser._id,
+          username: roomUser.username,
+          drift:
+            fresh && clock && fresh.url === clock.url
+              ? fresh.position - clock.position(fresh.serverTime)
+              : null,
+          buffering: fresh?.buffering ?? false,
+          reportAge: report ? now - report.serverTime : null,
+          rtt: stats?.rtt ?? null,
+        });
+      }
+
+      socket.emit('syncHealth', { entries });
+    } catch (error) {
+      console.error('[Sync] getSyncHealth error:', error);
+    }
+  });
+
+  // Moderator snaps one listener's player back to the room position
+  socket.on('forceResync', async (data: { socketId: string }) => {
+    const currentRoom = (socket.data as any).currentRoom as string | undefined;
+    if (!currentRoom) return;
+
+    try {
+      const userId = (socket.data as any).userId as string;
+      const room = await Room.findOne({ slug: currentRoom });
+      if (!room) return;
+
+      if (!isHostOrMod(room, userId)) {
+        socket.emit('error', { message: 'Only the host or moderators can resync listeners' });
+        return;
+      }
+
+      const sockets = await io.in(currentRoom).fetchSockets();
+      const target = sockets.find((s) => s.id === data?.socketId);
+      if (!target) {
+        socket.emit('error', { message: 'That listener is no longer in the room' });
+        return;
+      }
+
+      if (!room.currentVideo) return;
+      const state = getPlaybackState(currentRoom, room.currentVideo);
+      target.emit('forceResync', {
+        currentTime: state.currentTime,
+        paused: state.isPaused,
+        playbackRate: state.playbackRate,
+        serverTime: Date.now(),
+      });
+
+      const targetName = ((target.data as any).roomUser as RoomUser | undefined)?.username;
+      console.log(`[Mod] ${(socket.data as any).username} forced a resync for ${targetName} in ${currentRoom}`);
+    } catch (error) {
+      console.error('[Sync] forceResync error:', error);
+      socket.emit('error', { message: 'Failed to resync listener' });
+    }
+  });
+}
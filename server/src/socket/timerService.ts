@@ -1,5 +1,37 @@
 import { Server } from 'socket.io';
-import { Room, IRoom } from '../models/Room';
+import mongoose from 'mongoose';
+import { Room, IRoom, IVideoItem, ICurrentVideo } from '../models/Room';
+import { PlayHistory } from '../models/PlayHistory';
+import { canonicalMediaId } from '../utils/videoValidator';
+import { rememberDuration, reportedDuration } from '../media';
+import {
+  INSTANCE_ID,
+  ownsRoom,
+  forgetRoom,
+  claimRoom,
+  tryAcquireRoom,
+  releaseRoom,
+  isRoomOwner,
+  renewOwnedRooms,
+  getLiveLeaseSlugs,
+} from './roomOwnership';
+import {
+  PlaybackClock,
+  getClock,
+  setClock,
+  dropClock,
+  schedulePersist,
+  flushClock,
+  clipEnd,
+  clipLength,
+} from './playbackClock';
+import { resolveDuration, sharedDuration, REQUIRED_AGREEING_REPORTS, MAX_DURATION_REPORTS } from './durationConsensus';
+import { getRoomUserCount } from './roomHandlers';
+import { isHostOrMod } from './permissions';
+import { applyQueueOrder, peekNextTrack, takeNextTrack } from './queueOrder';
+import { emitWaitlist, emitDjQueue } from './djBoothHandlers';
+import { exceedsMaxLength } from './submissionRules';
+import { pickFallbackTrack, isIdle } from './fallbackPlayer';
 
 // Per-room auto-advance timers
 const roomTimers = new Map<string, NodeJS.Timeout>();
@@ -7,47 +39,66 @@ const roomTimers = new Map<string, NodeJS.Timeout>();
 // Per-room periodic sync intervals
 const roomSyncIntervals = new Map<string, NodeJS.Timeout>();
 
-// Per-room playback state
-interface PlaybackState {
-  isPaused: boolean;
-  pausedAt: number; // seconds elapsed when paused
+const SYNC_INTERVAL_MS = 2000;
+
+export function clearPlaybackState(roomSlug: string): void {
+  dropClock(roomSlug);
+  stopSyncInterval(roomSlug);
 }
 
-const roomPlaybackState = new Map<string, PlaybackState>();
+/**
+ * The room's clock, hydrated from the persisted currentVideo when this
+ * instance doesn't hold it yet (first action after a takeover).
+ */
+async function loadClock(roomSlug: string): Promise<PlaybackClock | null> {
+  const existing = getClock(roomSlug);
+  if (existing) return existing;
 
-export function getPlaybackState(roomSlug: string): PlaybackState {
-  return roomPlaybackState.get(roomSlug) || { isPaused: false, pausedAt: 0 };
+  const room = await Room.findOne({ slug: roomSlug });
+  if (!room?.currentVideo) return null;
+  return setClock(roomSlug, room.currentVideo);
 }
 
-export function clearPlaybackState(roomSlug: string): void {
-  roomPlaybackState.delete(roomSlug);
-  stopSyncInterval(roomSlug);
+/** Stop everything this instance runs for a room (another instance took over). */
+function dropLocalPlayback(roomSlug: string): void {
+  stopVideoTimer(roomSlug);
+  clearPlaybackState(roomSlug);
+}
+
+/** Stop playback for a room cluster-wide (used when the room is deleted). */
+export async function stopRoomPlayback(io: Server, roomSlug: string): Promise<void> {
+  dropLocalPlayback(roomSlug);
+  await releaseRoom(io, roomSlug);
 }
 
 /**
  * CyTube-style periodic mediaUpdate broadcast.
- * Sends { currentTime, paused } to all clients every 2 seconds.
+ * Sends { currentTime, paused, playbackRate, serverTime } to all clients
+ * every 2 seconds; serverTime lets clients account for latency using their
+ * clock offset.
  */
 export function startSyncInterval(io: Server, roomSlug: string): void {
   stopSyncInterval(roomSlug);
 
-  const interval = setInterval(async () => {
-    const state = getPlaybackState(roomSlug);
-    let currentTime: number;
-
-    if (state.isPaused) {
-      currentTime = state.pausedAt;
-    } else {
-      const room = await Room.findOne({ slug: roomSlug });
-      if (!room?.currentVideo?.startedAt) return;
-      currentTime = (Date.now() - new Date(room.currentVideo.startedAt).getTime()) / 1000;
+  const interval = setInterval(() => {
+    // Only the owning instance broadcasts; the adapter fans it out cluster-wide
+    if (!ownsRoom(roomSlug)) {
+      stopSyncInterval(roomSlug);
+      return;
     }
 
+    // Read from the in-memory clock: no database access per tick
+    const clock = getClock(roomSlug);
+    if (!clock) return;
+
+    const now = Date.now();
     io.to(roomSlug).emit('mediaUpdate', {
-      currentTime,
-      paused: state.isPaused,
+      currentTime: clock.position(now),
+      paused: clock.isPaused,
+      playbackRate: clock.playbackRate,
+      serverTime: now,
     });
-  }, 2000);
+  }, SYNC_INTERVAL_MS);
 
   roomSyncIntervals.set(roomSlug, interval);
 }
@@ -70,32 +121,130 @@ export async function handleHostMediaUpdate(
   currentTime: number,
   paused: boolean
 ): Promise<void> {
-  const room = await Room.findOne({ slug: roomSlug });
-  if (!room?.currentVideo) return;
+  const clock = await loadClock(roomSlug);
+  if (!clock) return;
+
+  // Whoever handles the update becomes the timer owner for the room
+  await claimRoom(io, roomSlug);
+  if (!roomSyncIntervals.has(roomSlug)) {
+    startSyncInterval(io, roomSlug);
+  }
 
   if (paused) {
     // Pause: store position, stop auto-advance timer
-    roomPlaybackState.set(roomSlug, { isPaused: true, pausedAt: currentTime });
+    clock.pause(currentTime);
     stopVideoTimer(roomSlug);
   } else {
-    // Playing: update startedAt so server time tracking stays correct
-    const newStartedAt = new Date(Date.now() - currentTime * 1000);
-    room.currentVideo.startedAt = newStartedAt;
-    await room.save();
-    roomPlaybackState.set(roomSlug, { isPaused: false, pausedAt: 0 });
+    // Playing: move the clock so server time tracking stays correct
+    clock.play(currentTime);
 
-    // Restart auto-advance timer with remaining time
-    const remaining = Math.max(room.currentVideo.duration - currentTime, 1);
+    // Restart auto-advance timer with remaining time (once the duration is known)
+    const remaining = clock.wallRemaining();
     stopVideoTimer(roomSlug);
-    startVideoTimer(io, roomSlug, remaining);
+    if (remaining !== null) {
+      startVideoTimer(io, roomSlug, Math.max(remaining, 1));
+    }
   }
 
+  schedulePersist(roomSlug);
+
   // Rebroadcast to all clients (exactly like CyTube)
-  io.to(roomSlug).emit('mediaUpdate', { currentTime, paused });
+  io.to(roomSlug).emit('mediaUpdate', {
+    currentTime,
+    paused,
+    playbackRate: clock.playbackRate,
+    serverTime: Date.now(),
+  });
 }
 
-// --- Auto-advance timer (unchanged) ---
+/**
+ * Nobody is left in the room: freeze the clock where it is and stop the
+ * timer and sync broadcasts, so the queue isn't played to an empty room.
+ */
+export async function autoPauseRoom(io: Server, roomSlug: string): Promise<void> {
+  const clock = await loadClock(roomSlug);
+  if (!clock || clock.isPaused) return;
+
+  await claimRoom(io, roomSlug);
+  clock.pause(clock.position(), true);
+  stopVideoTimer(roomSlug);
+  stopSyncInterval(roomSlug);
+  await flushClock(roomSlug);
 
+  console.log(`[Timer] Room ${roomSlug}: empty, paused at ${clock.pausedAt.toFixed(1)}s`);
+}
+
+/**
+ * Auto-pause a room nobody is listening to any more, if the host wants
+ * that. Called whenever listeners go away: leaving, disconnecting, being
+ * kicked, or a room recovered with nobody in it.
+ */
+export async function autoPauseIfEmpty(io: Server, roomSlug: string): Promise<void> {
+  if ((await getRoomUserCount(io, roomSlug)) > 0) return;
+  const room = await Room.findOne({ slug: roomSlug }).select('settings');
+  if (room?.settings?.autoPauseWhenEmpty) {
+    await autoPauseRoom(io, roomSlug);
+  }
+}
+
+/**
+ * Someone came back to an auto-paused room: play on from where it stopped.
+ * Manual pauses are left alone.
+ */
+export async function resumeAutoPausedRoom(io: Server, roomSlug: string): Promise<void> {
+  const clock = await loadClock(roomSlug);
+  if (!clock || !clock.autoPaused) return;
+
+  const at = clock.pausedAt;
+  await handleHostMediaUpdate(io, roomSlug, at, false);
+  console.log(`[Timer] Room ${roomSlug}: listener returned, resumed at ${at.toFixed(1)}s`);
+}
+
+/**
+ * Host/mod changed the room's playback speed: keep the position, rescale
+ * the auto-advance timer and push the new rate to every client.
+ */
+export async function handlePlaybackRateChange(
+  io: Server,
+  roomSlug: string,
+  playbackRate: number
+): Promise<void> {
+  const clock = await loadClock(roomSlug);
+  if (!clock) return;
+
+  await claimRoom(io, roomSlug);
+  if (!roomSyncIntervals.has(roomSlug)) {
+    startSyncInterval(io, roomSlug);
+  }
+
+  const now = Date.now();
+  clock.setRate(playbackRate, now);
+
+  const remaining = clock.wallRemaining(now);
+  if (!clock.isPaused && remaining !== null) {
+    startVideoTimer(io, roomSlug, Math.max(remaining, 1));
+  }
+
+  schedulePersist(roomSlug);
+
+  io.to(roomSlug).emit('mediaUpdate', {
+    currentTime: clock.position(now),
+    paused: clock.isPaused,
+    playbackRate,
+    serverTime: now,
+  });
+}
+
+// --- Auto-advance timer ---
+
+// Announce the next item this long before the current one ends so clients can preload it
+const PRELOAD_LEAD_SECONDS = 15;
+
+/**
+ * Schedule the end of the current track: `nextUp` goes out
+ * PRELOAD_LEAD_SECONDS before the end, then the queue advances at the end,
+ * or earlier by the room's crossfade so the next track fades in under it.
+ */
 export function startVideoTimer(io: Server, roomSlug: string, durationSeconds: number): void {
   stopVideoTimer(roomSlug);
 
@@ -103,13 +252,77 @@ export function startVideoTimer(io: Server, roomSlug: string, durationSeconds: n
     durationSeconds = 240;
   }
 
+  const endsAt = Date.now() + durationSeconds * 1000;
+  const preloadIn = Math.max(durationSeconds - PRELOAD_LEAD_SECONDS, 0) * 1000;
+
+  const timer: NodeJS.Timeout = setTimeout(async () => {
+    try {
+      // Another instance may have taken the room over since the timer was set
+      if (!(await isRoomOwner(roomSlug))) {
+        if (roomTimers.get(roomSlug) === timer) roomTimers.delete(roomSlug);
+        return;
+      }
+
+      const crossfadeMs = await announceNextUp(io, roomSlug, endsAt);
+
+      // Paused, skipped or rescheduled in the meantime
+      if (roomTimers.get(roomSlug) !== timer) return;
+      scheduleAdvance(io, roomSlug, Math.max(endsAt - crossfadeMs - Date.now(), 0));
+    } catch (error) {
+      console.error(`[Timer] Preload error for ${roomSlug}:`, error);
+      // Skip the preload but still end the track on time
+      if (roomTimers.get(roomSlug) === timer) {
+        scheduleAdvance(io, roomSlug, Math.max(endsAt - Date.now(), 0));
+      }
+    }
+  }, preloadIn);
+
+  roomTimers.set(roomSlug, timer);
+  console.log(`[Timer] Started ${durationSeconds}s timer for room ${roomSlug}`);
+}
+
+function scheduleAdvance(io: Server, roomSlug: string, delayMs: number): void {
   const timer = setTimeout(async () => {
     roomTimers.delete(roomSlug);
-    await advanceQueue(io, roomSlug);
-  }, durationSeconds * 1000);
+    try {
+      if (!(await isRoomOwner(roomSlug))) return;
+      if (await advanceQueue(io, roomSlug)) return;
+    } catch (error) {
+      console.error(`[Timer] Advance error for ${roomSlug}:`, error);
+    }
+    await handBackRoom(io, roomSlug);
+  }, delayMs);
 
   roomTimers.set(roomSlug, timer);
-  console.log(`[Timer] Started ${durationSeconds}s timer for room ${roomSlug}`);
+}
+
+/**
+ * Give up a room whose track change failed. Failover recovery (here or on
+ * another instance) then rebuilds its playback from the persisted state,
+ * instead of the room sitting on a finished track with no timer.
+ */
+async function handBackRoom(io: Server, roomSlug: string): Promise<void> {
+  dropLocalPlayback(roomSlug);
+  try {
+    await releaseRoom(io, roomSlug);
+  } catch (error) {
+    // The lease is no longer renewed, so it runs out and recovery adopts the room
+    console.error(`[Timer] Failed to release ${roomSlug}:`, error);
+  }
+}
+
+/**
+ * Tell clients what plays next so they can warm up a player for it.
+ * Returns how early (ms) to switch for the crossfade; 0 when nothing follows.
+ */
+async function announceNextUp(io: Server, roomSlug: string, endsAt: number): Promise<number> {
+  const room = await Room.findOne({ slug: roomSlug });
+  const next = room ? peekNextTrack(room) : null;
+  if (!room || !next) return 0;
+
+  const crossfadeSeconds = room.settings?.crossfadeSeconds || 0;
+  io.to(roomSlug).emit('nextUp', { video: next, endsAt, crossfadeSeconds });
+  return crossfadeSeconds * 1000;
 }
 
 export function stopVideoTimer(roomSlug: string): void {
@@ -120,69 +333,426 @@ export function stopVideoTimer(roomSlug: string): void {
   }
 }
 
-export async function advanceQueue(io: Server, roomSlug: string): Promise<void> {
+/** Start an item playing from its clip start at `startsAt` (epoch ms). */
+function toCurrentVideo(item: IVideoItem, startsAt: number, playbackRate: number, autoPicked: boolean): ICurrentVideo {
+  const startAt = item.startAt || 0;
+  return {
+    url: item.url,
+    providerId: item.providerId ?? canonicalMediaId(item.url),
+    title: item.title,
+    author: item.author ?? null,
+    thumbnailUrl: item.thumbnailUrl ?? null,
+    duration: item.duration,
+    startAt,
+    endAt: item.endAt ?? null,
+    addedBy: item.addedBy,
+    // startedAt is when position 0 would have played, so back-date it by the offset
+    startedAt: new Date(startsAt - (startAt * 1000) / playbackRate),
+    isPaused: false,
+    pausedAt: 0,
+    playbackRate,
+    // A length from the provider, or settled in an earlier play in this room
+    durationSettled: item.duration > 0,
+    durationReports: [],
+    autoPaused: false,
+    woots: [],
+    mehs: [],
+    grabs: [],
+    mehSkipped: false,
+    historyId: new mongoose.Types.ObjectId(),
+    autoPicked,
+  };
+}
+
+/** Add a started track to the room's play history. */
+async function recordPlay(room: IRoom, video: ICurrentVideo, playedAt = new Date()): Promise<void> {
+  try {
+    await PlayHistory.create({
+      _id: video.historyId,
+      roomId: room._id,
+      mediaId: canonicalMediaId(video.url),
+      url: video.url,
+      title: video.title,
+      duration: video.duration,
+      startAt: video.startAt,
+      endAt: video.endAt,
+      addedBy: { _id: video.addedBy._id, username: video.addedBy.username },
+      playedAt,
+      autoPicked: video.autoPicked,
+    });
+  } catch (error) {
+    // History is best-effort; never let it stop playback
+    console.error(`[History] Failed to record play in ${room.slug}:`, error);
+  }
+}
+
+/** Fill in how a finished track went on its history entry. */
+async function finishPlay(
+  roomSlug: string,
+  video: ICurrentVideo,
+  skipped: boolean,
+  endedAt = new Date()
+): Promise<void> {
+  if (!video.historyId) return;
+  try {
+    await PlayHistory.updateOne(
+      { _id: video.historyId },
+      {
+        $set: {
+          endedAt,
+          skipped,
+          woots: video.woots.length,
+          mehs: video.mehs.length,
+          grabs: video.grabs.length,
+        },
+      }
+    );
+  } catch (error) {
+    console.error(`[History] Failed to finish play in ${roomSlug}:`, error);
+  }
+}
+
+/**
+ * Take what plays after `finished`: the next submission in the room's queue
+ * order or, once those run out, a fallback pick if the host set one up and
+ * someone is around to hear it. Null when nothing can play.
+ */
+async function takeNextPlay(
+  io: Server,
+  room: IRoom,
+  finished: ICurrentVideo | null
+): Promise<{ item: IVideoItem; autoPicked: boolean } | null> {
+  applyQueueOrder(room);
+  const next = takeNextTrack(room);
+  if (next) return { item: next, autoPicked: false };
+
+  if (room.settings.fallbackMode !== 'off' && (await getRoomUserCount(io, room.slug)) > 0) {
+    const picked = await pickFallbackTrack(room, finished);
+    if (picked) return { item: picked, autoPicked: true };
+  }
+  return null;
+}
+
+export interface AdvanceOptions {
+  skipped?: boolean; // the current track is being cut short rather than ending
+  onlyIfPlayable?: boolean; // a silent room with nothing to play is left as it is
+}
+
+/**
+ * Move the room on to its next track (or a fallback pick, or silence).
+ * Errors are logged, not thrown; returns false when the change failed.
+ */
+export async function advanceQueue(io: Server, roomSlug: string, options: AdvanceOptions = {}): Promise<boolean> {
   try {
     const room = await Room.findOne({ slug: roomSlug });
-    if (!room) return;
+    if (!room) return true;
+    const finished = room.currentVideo;
 
+    // The room keeps its speed from one track to the next
+    const playbackRate = room.currentVideo?.playbackRate || 1;
     clearPlaybackState(roomSlug);
 
-    if (room.queue.length === 0) {
+    const next = await takeNextPlay(io, room, finished);
+
+    if (!next) {
+      // Already silent: nothing changed, so there is nothing to announce
+      if (options.onlyIfPlayable && !finished) return true;
       room.currentVideo = null;
       await room.save();
-      io.to(roomSlug).emit('nowPlaying', { video: null });
+      if (finished) await finishPlay(roomSlug, finished, !!options.skipped);
+      await releaseRoom(io, roomSlug);
+      io.to(roomSlug).emit('nowPlaying', { video: null, serverTime: Date.now() });
       io.to(roomSlug).emit('queueUpdated', { queue: room.queue });
+      // DJs who ran out of tracks dropped off the waitlist
+      if (room.settings.queueMode === 'booth') emitWaitlist(io, room);
       console.log(`[Timer] Room ${roomSlug}: queue empty`);
-      return;
+      return true;
     }
 
-    const nextVideo = room.queue.shift()!;
-    room.currentVideo = {
-      url: nextVideo.url,
-      title: nextVideo.title,
-      duration: nextVideo.duration,
-      addedBy: nextVideo.addedBy,
-      startedAt: new Date(),
-    };
+    const { item: nextVideo, autoPicked } = next;
+    room.currentVideo = toCurrentVideo(nextVideo, Date.now(), playbackRate, autoPicked);
+    if (room.currentVideo.duration <= 0) {
+      // Times the track until this room's listeners settle its length
+      room.currentVideo.duration = await reportedDuration(room.currentVideo.providerId!).catch(() => 0);
+    }
+    // Fair-share order depends on whose track is playing
+    applyQueueOrder(room);
     await room.save();
+    if (finished) await finishPlay(roomSlug, finished, !!options.skipped);
+    await claimRoom(io, roomSlug);
+    const clock = setClock(roomSlug, room.currentVideo);
 
-    io.to(roomSlug).emit('nowPlaying', { video: room.currentVideo });
+    io.to(roomSlug).emit('nowPlaying', { video: room.currentVideo, serverTime: Date.now() });
     io.to(roomSlug).emit('queueUpdated', { queue: room.queue });
+    if (room.settings.queueMode === 'booth' && !autoPicked) {
+      // The DJ rotated to the back and their queue got shorter
+      emitWaitlist(io, room);
+      emitDjQueue(io, room, nextVideo.addedBy._id);
+    }
 
-    if (nextVideo.duration > 0) {
-      startVideoTimer(io, roomSlug, nextVideo.duration);
+    // Runs until the clip's end (or the media's, once its duration is known)
+    const remaining = clock.wallRemaining();
+    if (remaining !== null) {
+      startVideoTimer(io, roomSlug, Math.max(remaining, 1));
     }
 
     startSyncInterval(io, roomSlug);
+    await recordPlay(room, room.currentVideo);
 
-    console.log(`[Timer] Room ${roomSlug}: now playing "${nextVideo.title}"`);
+    console.log(`[Timer] Room ${roomSlug}: now ${autoPicked ? 'auto-playing' : 'playing'} "${nextVideo.title}"`);
+    return true;
   } catch (error) {
     console.error(`[Timer] advanceQueue error for ${roomSlug}:`, error);
+    return false;
   }
 }
 
-export function handleDurationReport(io: Server, roomSlug: string, durationSeconds: number): void {
-  if (durationSeconds > 0) {
-    const state = getPlaybackState(roomSlug);
-    if (state.isPaused) {
-      Room.findOne({ slug: roomSlug }).then((room) => {
-        if (!room?.currentVideo) return;
-        room.currentVideo.duration = durationSeconds;
-        room.save();
-      });
-      return;
+/**
+ * Start the next track if the room is idle. An auto-picked fallback track
+ * counts as idle: it is cut short as soon as a real submission can play.
+ */
+export async function playNextIfIdle(io: Server, room: IRoom): Promise<void> {
+  if (!isIdle(room)) return;
+  stopVideoTimer(room.slug);
+  await advanceQueue(io, room.slug, { skipped: !!room.currentVideo });
+}
+
+/**
+ * Record one client's measurement of the current track's length. Once the
+ * reports agree (see resolveDuration) the duration is fixed for the track
+ * and its queued copies, and the advance timer is restarted; later reports
+ * are ignored. Reports carrying the id of an earlier play are dropped.
+ */
+export async function handleDurationReport(
+  io: Server,
+  roomSlug: string,
+  userId: string,
+  url: string,
+  durationSeconds: number,
+  playId: string | null = null
+): Promise<void> {
+  const room = await Room.findOne({ slug: roomSlug });
+  const video = room?.currentVideo;
+  if (!room || !video || video.url !== url || video.durationSettled) return;
+  // Measured during an earlier play of the same url
+  if (playId !== null && String(video.historyId) !== playId) return;
+
+  const trusted = video.addedBy._id === userId || isHostOrMod(room, userId);
+
+  // One report per user per play; the guards keep concurrent reports
+  // handled by different instances from racing each other, and a late
+  // report from landing on a replay of the same url
+  const reported = await Room.findOneAndUpdate(
+    {
+      slug: roomSlug,
+      'currentVideo.url': url,
+      'currentVideo.historyId': video.historyId,
+      'currentVideo.durationSettled': { $ne: true },
+      'currentVideo.durationReports.userId': { $ne: userId },
+      [`currentVideo.durationReports.${MAX_DURATION_REPORTS - 1}`]: { $exists: false },
+    },
+    { $push: { 'currentVideo.durationReports': { userId, duration: durationSeconds, trusted } } },
+    { new: true }
+  );
+  if (!reported?.currentVideo) return;
+
+  // A lone listener can't outvote anyone, so their own report is enough
+  const listeners = await getRoomUserCount(io, roomSlug);
+  const quorum = Math.max(1, Math.min(REQUIRED_AGREEING_REPORTS, listeners));
+  const reports = reported.currentVideo.durationReports;
+  const duration = resolveDuration(reports, quorum);
+  if (duration === null) return;
+
+  const settled = await Room.updateOne(
+    {
+      slug: roomSlug,
+      'currentVideo.url': url,
+      'currentVideo.historyId': video.historyId,
+      'currentVideo.durationSettled': { $ne: true },
+    },
+    {
+      $set: {
+        'currentVideo.duration': duration,
+        'currentVideo.durationSettled': true,
+        'queue.$[item].duration': duration,
+      },
+    },
+    { arrayFilters: [{ 'item.url': url, 'item.duration': { $lte: 0 } }] }
+  );
+  if (settled.modifiedCount === 0) return;
+
+  console.log(
+    `[Timer] Room ${roomSlug}: duration settled at ${duration}s from ${reports.length} report(s)`
+  );
+
+  // Shared with other rooms only when several listeners agreed, not on
+  // one trusted report
+  const shared = sharedDuration(reports);
+  if (shared !== null) {
+    rememberDuration(video.providerId ?? canonicalMediaId(url), shared).catch((error) =>
+      console.error(`[Timer] Failed to cache duration for ${url}:`, error)
+    );
+  }
+
+  if (reported.queue.some((item) => item.url === url && item.duration <= 0)) {
+    const updated = await Room.findOne({ slug: roomSlug });
+    if (updated) io.to(roomSlug).emit('queueUpdated', { queue: updated.queue });
+  }
+
+  // Only now do we know whether the track is within the room's length limit
+  if (exceedsMaxLength(room, { duration, startAt: video.startAt, endAt: video.endAt })) {
+    io.to(roomSlug).emit('error', { message: `"${video.title}" is longer than this room allows and was skipped` });
+    console.log(`[Timer] Room ${roomSlug}: "${video.title}" is over the length limit, skipping`);
+    stopVideoTimer(roomSlug);
+    await advanceQueue(io, roomSlug, { skipped: true });
+    return;
+  }
+
+  const clock = await loadClock(roomSlug);
+  if (!clock || clock.url !== url || String(clock.historyId) !== String(video.historyId)) return;
+
+  clock.duration = duration;
+  await claimRoom(io, roomSlug);
+  // Rare and important for failover: persist right away
+  await flushClock(roomSlug);
+
+  if (!roomSyncIntervals.has(roomSlug)) {
+    startSyncInterval(io, roomSlug);
+  }
+
+  if (!clock.isPaused) {
+    startVideoTimer(io, roomSlug, Math.max(clock.wallRemaining()!, 1));
+  }
+}
+
+// --- Recovery and failover ---
+
+const OWNERSHIP_CHECK_MS = 5000;
+
+/**
+ * Rebuild auto-advance timers and sync intervals from the playback state
+ * persisted on each room's currentVideo, for every playing room that no live
+ * instance owns. Runs on startup and then periodically, so rooms owned by a
+ * crashed instance are picked up once its lease expires.
+ */
+export async function recoverPlayback(io: Server): Promise<void> {
+  const liveSlugs = await getLiveLeaseSlugs();
+  const rooms = await Room.find({ currentVideo: { $ne: null }, slug: { $nin: liveSlugs } });
+
+  let recovered = 0;
+  for (const room of rooms) {
+    try {
+      if (!(await tryAcquireRoom(room.slug))) continue;
+      await recoverRoomPlayback(io, room);
+      recovered++;
+    } catch (error) {
+      console.error(`[Timer] Recovery error for ${room.slug}:`, error);
     }
+  }
 
-    Room.findOne({ slug: roomSlug }).then((room) => {
-      if (!room?.currentVideo?.startedAt) return;
-      const elapsed = (Date.now() - new Date(room.currentVideo.startedAt).getTime()) / 1000;
-      const remaining = Math.max(durationSeconds - elapsed, 1);
+  if (recovered > 0) {
+    console.log(`[Timer] Recovered playback for ${recovered} room(s) on ${INSTANCE_ID}`);
+  }
+}
 
-      room.currentVideo.duration = durationSeconds;
-      room.save();
+/**
+ * Keep this instance's room leases alive, stop rooms taken over by other
+ * instances, and adopt rooms whose owner has died.
+ */
+export function startFailoverMonitor(io: Server): void {
+  io.on('roomOwnerChanged', (roomSlug: string, ownerId: string | null) => {
+    if (ownerId !== INSTANCE_ID && ownsRoom(roomSlug)) {
+      forgetRoom(roomSlug);
+      dropLocalPlayback(roomSlug);
+    }
+  });
+
+  setInterval(async () => {
+    try {
+      const lost = await renewOwnedRooms();
+      lost.forEach(dropLocalPlayback);
+      await recoverPlayback(io);
+    } catch (error) {
+      console.error('[Timer] Ownership check error:', error);
+    }
+  }, OWNERSHIP_CHECK_MS);
+}
 
-      startVideoTimer(io, roomSlug, remaining);
-      startSyncInterval(io, roomSlug);
-    });
+async function recoverRoomPlayback(io: Server, room: IRoom): Promise<void> {
+  const roomSlug = room.slug;
+  const video = room.currentVideo!;
+
+  if (video.isPaused) {
+    setClock(roomSlug, video);
+    // An auto-paused room stays silent until someone rejoins
+    if (!video.autoPaused) startSyncInterval(io, roomSlug);
+    console.log(`[Timer] Room ${roomSlug}: restored paused at ${video.pausedAt}s`);
+    return;
+  }
+
+  const now = Date.now();
+  const playbackRate = video.playbackRate || 1;
+  // Wall-clock length of a stretch of media at the room's speed
+  const wallMs = (seconds: number) => (seconds * 1000) / playbackRate;
+  const end = clipEnd(video);
+  let endsAt = end === null ? null : new Date(video.startedAt).getTime() + wallMs(end);
+
+  // The track finished while we were down: chain through what would have
+  // played next, as advanceQueue picks it, while those tracks would also have
+  // ended by now (only possible when their length is known)
+  if (endsAt !== null && endsAt <= now) {
+    const finishedAt = endsAt;
+    const playedThrough: { video: ICurrentVideo; startedAt: number; endedAt: number }[] = [];
+    let next = await takeNextPlay(io, room, video);
+    let length = next ? clipLength(next.item) : null;
+    while (next && length !== null && endsAt + wallMs(length) <= now) {
+      const played = toCurrentVideo(next.item, endsAt, playbackRate, next.autoPicked);
+      playedThrough.push({ video: played, startedAt: endsAt, endedAt: endsAt + wallMs(length) });
+      endsAt += wallMs(length);
+      // Fair-share order depends on whose track is playing
+      room.currentVideo = played;
+      next = await takeNextPlay(io, room, played);
+      length = next ? clipLength(next.item) : null;
+    }
+
+    const startsAt = length !== null ? endsAt : now;
+    room.currentVideo = next ? toCurrentVideo(next.item, startsAt, playbackRate, next.autoPicked) : null;
+    applyQueueOrder(room);
+    await room.save();
+
+    // History as advanceQueue would have written it, at the times the tracks played
+    await finishPlay(roomSlug, video, false, new Date(finishedAt));
+    for (const play of playedThrough) {
+      await recordPlay(room, play.video, new Date(play.startedAt));
+      await finishPlay(roomSlug, play.video, false, new Date(play.endedAt));
+    }
+    if (room.currentVideo) await recordPlay(room, room.currentVideo, new Date(startsAt));
+
+    io.to(roomSlug).emit('nowPlaying', { video: room.currentVideo, serverTime: Date.now() });
+    io.to(roomSlug).emit('queueUpdated', { queue: room.queue });
+    if (room.settings.queueMode === 'booth') {
+      emitWaitlist(io, room);
+      for (const dj of room.djQueues) emitDjQueue(io, room, dj.userId);
+    }
+
+    if (!room.currentVideo) {
+      await releaseRoom(io, roomSlug);
+      console.log(`[Timer] Room ${roomSlug}: queue ran out while offline`);
+      return;
+    }
   }
+
+  const current = room.currentVideo!;
+  const clock = setClock(roomSlug, current);
+
+  const remaining = clock.wallRemaining(now);
+  if (remaining !== null) {
+    startVideoTimer(io, roomSlug, Math.max(remaining, 1));
+  }
+
+  startSyncInterval(io, roomSlug);
+  console.log(`[Timer] Room ${roomSlug}: resumed "${current.title}"`);
+
+  // Nobody to play to: wait for someone to come back, as if they had just left
+  await autoPauseIfEmpty(io, roomSlug);
 }
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+
+/**
+ * Lightweight MongoDB operation counters, exposed on /api/metrics so the
+ * database load per room can be measured (e.g. before/after a change to the
+ * playback sync path). Operations whose filter names a room slug are also
+ * attributed to that room. Off unless ENABLE_DB_METRICS=true, since the
+ * endpoint is unauthenticated and lists room slugs.
+ */
+interface DbMetrics {
+  since: Date;
+  total: number;
+  byOperation: Record<string, number>;
+  byRoom: Record<string, number>;
+}
+
+const metrics: DbMetrics = {
+  since: new Date(),
+  total: 0,
+  byOperation: {},
+  byRoom: {},
+};
+
+export function dbMetricsEnabled(): boolean {
+  return process.env.ENABLE_DB_METRICS === 'true';
+}
+
+export function enableDbMetrics(): void {
+  if (!dbMetricsEnabled()) return;
+
+  mongoose.set('debug', (collectionName: string, methodName: string, ...methodArgs: unknown[]) => {
+    const key = `${collectionName}.${methodName}`;
+    metrics.total++;
+    metrics.byOperation[key] = (metrics.byOperation[key] || 0) + 1;
+
+    const filter = methodArgs[0] as { slug?: unknown } | null | undefined;
+    if (collectionName === 'rooms' && typeof filter?.slug === 'string') {
+      metrics.byRoom[filter.slug] = (metrics.byRoom[filter.slug] || 0) + 1;
+    }
+  });
+}
+
+export function getDbMetrics(): DbMetrics & { uptimeSeconds: number; perMinute: number } {
+  const uptimeSeconds = (Date.now() - metrics.since.getTime()) / 1000;
+  return {
+    ...metrics,
+    uptimeSeconds,
+    perMinute: uptimeSeconds > 0 ? (metrics.total / uptimeSeconds) * 60 : 0,
+  };
+}
@@ -0,0 +1,121 @@
+export type ImportFormat = 'm3u' | 'text' | 'json';
+
+// One track found in an import, before it is validated against the room
+export interface ImportEntry {
+  line: number; // 1-based line (or item number, for JSON)
+  url: string;
+  title?: string;
+  startAt?: number;
+  endAt?: number;
+}
+
+export interface ImportFailure {
+  line: number;
+  input: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  entries: ImportEntry[];
+  failures: ImportFailure[];
+}
+
+export const MAX_IMPORT_ENTRIES = 200;
+
+export function detectFormat(content: string): ImportFormat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  if (trimmed.startsWith('#EXTM3U') || /^#EXTINF:/m.test(trimmed)) return 'm3u';
+  return 'text';
+}
+
+/** M3U/M3U8: url lines, optionally preceded by "#EXTINF:<seconds>,<title>". */
+function parseM3u(content: string): ParsedImport {
+  const entries: ImportEntry[] = [];
+  let pendingTitle: string | undefined;
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('#')) {
+      const info = line.match(/^#EXTINF:[^,]*,(.*)$/);
+      if (info) pendingTitle = info[1].trim() || undefined;
+      return;
+    }
+    entries.push({ line: index + 1, url: line, title: pendingTitle });
+    pendingTitle = undefined;
+  });
+
+  return { format: 'm3u', entries, failures: [] };
+}
+
+/** One url per line; blank lines and "#" comments are ignored. */
+function parseText(content: string): ParsedImport {
+  const entries: ImportEntry[] = [];
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line && !line.startsWith('#')) entries.push({ line: index + 1, url: line });
+  });
+  return { format: 'text', entries, failures: [] };
+}
+
+const asOffset = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+/**
+ * JSON: an array of urls or of { url, title?, startAt?, endAt? } objects,
+ * or an export object holding such an array under tracks, items or queue.
+ */
+function parseJson(content: string): ParsedImport {
+  const failures: ImportFailure[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { format: 'json', entries: [], failures: [{ line: 1, input: '', reason: 'Not valid JSON' }] };
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : ((data as any)?.tracks ?? (data as any)?.items ?? (data as any)?.queue);
+  if (!Array.isArray(list)) {
+    return {
+      format: 'json',
+      entries: [],
+      failures: [{ line: 1, input: '', reason: 'Expected a list of tracks' }],
+    };
+  }
+
+  const entries: ImportEntry[] = [];
+  list.forEach((item, index) => {
+    const line = index + 1;
+    if (typeof item === 'string') {
+      entries.push({ line, url: item.trim() });
+    } else if (item && typeof item.url === 'string') {
+      entries.push({
+        line,
+        url: item.url.trim(),
+        title: typeof item.title === 'string' ? item.title : undefined,
+        startAt: asOffset(item.startAt),
+        endAt: asOffset(item.endAt),
+      });
+    } else {
+      failures.push({ line, input: JSON.stringify(item).slice(0, 100), reason: 'Missing url' });
+    }
+  });
+
+  return { format: 'json', entries, failures };
+}
+
+/** Pull the tracks out of an uploaded or pasted import. */
+export function parseImport(content: string, format: ImportFormat = detectFormat(content)): ParsedImport {
+  switch (format) {
+    case 'json':
+      return parseJson(content);
+    case 'm3u':
+      return parseM3u(content);
+    default:
+      return parseText(content);
+  }
+}
@@ -1,77 +1,77 @@
+import { findProvider, getMetadata, extractClipRange, ClipRange } from '../media';
+
+export type { ClipRange } from '../media';
+
 export interface VideoInfo {
   url: string;
   title: string;
   duration: number;
+  author?: string | null;
+  thumbnailUrl?: string | null;
 }
 
-const YOUTUBE_PATTERNS = [
-  /^(https?:\/\/)?(www\.)?youtube\.com\/watch\?v=([\w-]+)/,
-  /^(https?:\/\/)?(www\.)?youtu\.be\/([\w-]+)/,
-  /^(https?:\/\/)?(www\.)?youtube\.com\/embed\/([\w-]+)/,
-];
-
-const SOUNDCLOUD_PATTERN = /^(https?:\/\/)?(www\.)?soundcloud\.com\/([\w-]+)\/([\w-]+)/;
-
-export function isValidYouTubeUrl(url: string): boolean {
-  return YOUTUBE_PATTERNS.some((p) => p.test(url));
+export function isValidVideoUrl(url: string): boolean {
+  return !!findProvider(url);
 }
 
-export function isValidSoundCloudUrl(url: string): boolean {
-  return SOUNDCLOUD_PATTERN.test(url);
+/**
+ * Provider-qualified id that is the same for every link to one piece of
+ * media, e.g. "youtube:dQw4w9WgXcQ" for both youtu.be and youtube.com/watch
+ * links. Used to spot repeats; falls back to the url itself.
+ */
+export function canonicalMediaId(url: string): string {
+  const provider = findProvider(url);
+  const id = provider?.extractId(url);
+  return provider && id ? `${provider.id}:${id}` : url;
 }
 
-export function isValidVideoUrl(url: string): boolean {
-  return isValidYouTubeUrl(url) || isValidSoundCloudUrl(url);
+/**
+ * The URL to store for a track: the provider's canonical form (e.g. a plain
+ * youtube.com/watch link for youtu.be, Shorts and music.youtube.com links,
+ * with playlist and tracking parameters removed), or the URL as given.
+ */
+export function normalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  return findProvider(trimmed)?.normalizeUrl?.(trimmed) ?? trimmed;
 }
 
-export function extractYouTubeId(url: string): string | null {
-  for (const pattern of YOUTUBE_PATTERNS) {
-    const match = url.match(pattern);
-    if (match) return match[3];
-  }
-  return null;
+/**
+ * Look up a track's title, author, thumbnail and (where known) length,
+ * from the metadata cache or else its media provider. Falls back to basic
+ * info when the provider can't be reached.
+ */
+export async function fetchVideoInfo(url: string): Promise<VideoInfo> {
+  const provider = findProvider(url);
+  if (!provider) throw new Error('Invalid video URL');
+
+  const { title, duration, author, thumbnailUrl } = await getMetadata(provider, url, canonicalMediaId(url));
+  return { url: normalizeUrl(url), title, duration, author: author ?? null, thumbnailUrl: thumbnailUrl ?? null };
 }
 
+const isOffset = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
 /**
- * Fetch video info using oEmbed (works without API keys).
- * Falls back to basic info on failure.
+ * Work out the clip range for a submission: explicit startAt/endAt win over
+ * offsets found in the URL. Returns an error message when the range is invalid.
  */
-export async function fetchVideoInfo(url: string): Promise<VideoInfo> {
-  if (isValidYouTubeUrl(url)) {
-    try {
-      const oembedUrl = `https://www.youtube.com/oembed?url=${encodeURIComponent(url)}&format=json`;
-      const response = await fetch(oembedUrl);
-      if (response.ok) {
-        const data = (await response.json()) as { title?: string };
-        return {
-          url,
-          title: data.title || 'YouTube Video',
-          duration: 0, // oEmbed doesn't give duration; client will report it
-        };
-      }
-    } catch {
-      // fall through
-    }
-    return { url, title: 'YouTube Video', duration: 0 };
-  }
+export function resolveClipRange(url: string, startAt?: unknown, endAt?: unknown): ClipRange | string {
+  const fromUrl = extractClipRange(url);
 
-  if (isValidSoundCloudUrl(url)) {
-    try {
-      const oembedUrl = `https://soundcloud.com/oembed?url=${encodeURIComponent(url)}&format=json`;
-      const response = await fetch(oembedUrl);
-      if (response.ok) {
-        const data = (await response.json()) as { title?: string };
-        return {
-          url,
-          title: data.title || 'SoundCloud Track',
-          duration: 0,
-        };
-      }
-    } catch {
-      // fall through
-    }
-    return { url, title: 'SoundCloud Track', duration: 0 };
+  if (startAt !== undefined && startAt !== null && !isOffset(startAt)) {
+    return 'Start time must be a number of seconds';
+  }
+  if (endAt !== undefined && endAt !== null && !isOffset(endAt)) {
+    return 'End time must be a number of seconds';
   }
 
-  throw new Error('Invalid video URL');
+  const range: ClipRange = {
+    startAt: isOffset(startAt) ? startAt : fromUrl.startAt,
+    endAt: isOffset(endAt) ? endAt : fromUrl.endAt,
+  };
+
+  if (range.endAt !== null && range.endAt <= range.startAt) {
+    return 'End time must be after the start time';
+  }
+  return range;
 }
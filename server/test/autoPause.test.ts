@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Socket as ClientSocket } from 'socket.io-client';
+import { Room, IRoom, ICurrentVideo } from '../src/models/Room';
+import { User, IUser } from '../src/models/User';
+import { RoomLease } from '../src/models/RoomLease';
+import { stopVideoTimer, clearPlaybackState } from '../src/socket/timerService';
+import { flushAllClocks } from '../src/socket/playbackClock';
+import { connectTestDb, uniqueSuffix } from './helpers/db';
+import {
+  TestServer,
+  startTestServer,
+  createTestUser,
+  connectAs,
+  joinRoom,
+  nextEvent,
+  waitFor,
+  delay,
+} from './helpers/socketServer';
+
+// Seconds into the track when a test room is created
+const ELAPSED = 10;
+
+let server: TestServer;
+const clients: ClientSocket[] = [];
+const slugs: string[] = [];
+const userIds: mongoose.Types.ObjectId[] = [];
+
+async function user(name: string): Promise<IUser> {
+  const created = await createTestUser(name);
+  userIds.push(created._id);
+  return created;
+}
+
+async function client(as: IUser): Promise<ClientSocket> {
+  const socket = await connectAs(server, as);
+  clients.push(socket);
+  return socket;
+}
+
+/** A room that has been playing a 10-minute track for ELAPSED seconds. */
+async function playingRoom(host: IUser, options: { autoPause?: boolean; video?: Partial<ICurrentVideo> } = {}) {
+  const slug = `test-${uniqueSuffix()}`;
+  slugs.push(slug);
+  await Room.create({
+    name: 'Auto-pause test',
+    slug,
+    creatorId: host._id,
+    settings: { autoPauseWhenEmpty: options.autoPause ?? true },
+    currentVideo: {
+      url: 'fake://track?duration=600',
+      providerId: 'fake:track',
+      title: 'Track',
+      duration: 600,
+      addedBy: { _id: host._id.toString(), username: host.username },
+      startedAt: new Date(Date.now() - ELAPSED * 1000),
+      isPaused: false,
+      pausedAt: 0,
+      playbackRate: 1,
+      ...options.video,
+    },
+  });
+  return slug;
+}
+
+async function currentVideo(slug: string): Promise<ICurrentVideo | null> {
+  const room: IRoom | null = await Room.findOne({ slug });
+  return room?.currentVideo ?? null;
+}
+
+beforeAll(async () => {
+  await connectTestDb();
+  server = await startTestServer();
+});
+
+afterEach(async () => {
+  clients.splice(0).forEach((socket) => socket.disconnect());
+
+  // Let the server finish handling the disconnects before tearing down
+  await delay(100);
+  await flushAllClocks();
+  for (const slug of slugs) {
+    stopVideoTimer(slug);
+    clearPlaybackState(slug);
+  }
+  await Room.deleteMany({ slug: { $in: slugs } });
+  await RoomLease.deleteMany({ slug: { $in: slugs.splice(0) } });
+  await User.deleteMany({ _id: { $in: userIds.splice(0) } });
+});
+
+afterAll(async () => {
+  await server?.close();
+  await mongoose.disconnect();
+});
+
+describe('auto-pause when a room empties', () => {
+  it('pauses when the last listener leaves and resumes from there on rejoin', async () => {
+    const host = await user('host');
+    const slug = await playingRoom(host);
+    const socket = await client(host);
+
+    await joinRoom(socket, slug);
+    socket.emit('leaveRoom');
+
+    const paused = await waitFor(async () => {
+      const video = await currentVideo(slug);
+      return video?.isPaused && video.autoPaused ? video : null;
+    });
+    expect(paused.pausedAt).toBeGreaterThanOrEqual(ELAPSED);
+    expect(paused.pausedAt).toBeLessThan(ELAPSED + 5);
+
+    // Time passes in the empty room without moving the track along
+    await delay(300);
+    expect((await currentVideo(slug))!.pausedAt).toBe(paused.pausedAt);
+
+    const resumed = nextEvent<{ currentTime: number; paused: boolean }>(socket, 'mediaUpdate', (update) => !update.paused);
+    await joinRoom(socket, slug);
+    expect((await resumed).currentTime).toBe(paused.pausedAt);
+
+    // The write-behind persist lands about a second later
+    const playing = await waitFor(async () => {
+      const video = await currentVideo(slug);
+      return video && !video.isPaused ? video : null;
+    });
+    expect(playing.autoPaused).toBe(false);
+    const position = (Date.now() - new Date(playing.startedAt).getTime()) / 1000;
+    expect(position).toBeGreaterThanOrEqual(paused.pausedAt);
+    expect(position).toBeLessThan(paused.pausedAt + 3);
+  });
+
+  it('pauses when the last listener disconnects and resumes for someone else', async () => {
+    const host = await user('host');
+    const guest = await user('guest');
+    const slug = await playingRoom(host);
+
+    const hostSocket = await client(host);
+    await joinRoom(hostSocket, slug);
+    hostSocket.disconnect();
+
+    const paused = await waitFor(async () => {
+      const video = await currentVideo(slug);
+      return video?.autoPaused ? video : null;
+    });
+
+    const guestSocket = await client(guest);
+    const resumed = nextEvent<{ currentTime: number; paused: boolean }>(guestSocket, 'mediaUpdate', (update) => !update.paused);
+    await joinRoom(guestSocket, slug);
+    expect((await resumed).currentTime).toBe(paused.pausedAt);
+  });
+
+  it('pauses when kicking empties the room', async () => {
+    const host = await user('host');
+    const slug = await playingRoom(host);
+    const socket = await client(host);
+
+    // The host is the only one who can empty a room by kicking: themselves
+    await joinRoom(socket, slug);
+    const kicked = nextEvent(socket, 'kicked');
+    socket.emit('removeUser', { userId: host._id.toString() });
+    await kicked;
+
+    const paused = await waitFor(async () => {
+      const video = await currentVideo(slug);
+      return video?.autoPaused ? video : null;
+    });
+    expect(paused.isPaused).toBe(true);
+  });
+
+  it('keeps playing while someone is still listening', async () => {
+    const host = await user('host');
+    const guest = await user('guest');
+    const slug = await playingRoom(host);
+
+    const hostSocket = await client(host);
+    const guestSocket = await client(guest);
+    await joinRoom(hostSocket, slug);
+    await joinRoom(guestSocket, slug);
+
+    const left = nextEvent(guestSocket, 'userLeft');
+    hostSocket.emit('leaveRoom');
+    await left;
+    await delay(300);
+
+    const video = await currentVideo(slug);
+    expect(video!.isPaused).toBe(false);
+    expect(video!.autoPaused).toBe(false);
+  });
+
+  it('keeps playing in an empty room when the setting is off', async () => {
+    const host = await user('host');
+    const guest = await user('guest');
+    const slug = await playingRoom(host, { autoPause: false });
+
+    const hostSocket = await client(host);
+    const guestSocket = await client(guest);
+    await joinRoom(hostSocket, slug);
+    await joinRoom(guestSocket, slug);
+
+    // The guest sees the host go, then leaves last
+    const left = nextEvent(guestSocket, 'userLeft');
+    hostSocket.emit('leaveRoom');
+    await left;
+    guestSocket.emit('leaveRoom');
+    await delay(300);
+
+    const video = await currentVideo(slug);
+    expect(video!.isPaused).toBe(false);
+    expect(video!.autoPaused).toBe(false);
+  });
+
+  it('leaves a manual pause alone when listeners return', async () => {
+    const host = await user('host');
+    const slug = await playingRoom(host, { video: { isPaused: true, pausedAt: 42 } });
+    const socket = await client(host);
+
+    await joinRoom(socket, slug);
+    socket.emit('leaveRoom');
+    await delay(300);
+    await joinRoom(socket, slug);
+    await delay(300);
+
+    const video = await currentVideo(slug);
+    expect(video!.isPaused).toBe(true);
+    expect(video!.autoPaused).toBe(false);
+    expect(video!.pausedAt).toBe(42);
+  });
+});
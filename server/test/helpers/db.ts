@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+import { inject } from 'vitest';
+
+/** Connect to the test database started (or named) by the global setup; throws when it can't. */
+export async function connectTestDb(): Promise<void> {
+  const uri = inject('mongoUri');
+  try {
+    await mongoose.connect(uri, { serverSelectionTimeoutMS: 5000 });
+  } catch (error) {
+    await mongoose.disconnect().catch(() => undefined);
+    throw new Error(`[Test] No MongoDB at ${uri}: ${(error as Error).message}`);
+  }
+}
+
+export function uniqueSuffix(): string {
+  return Math.random().toString(36).substring(2, 8);
+}
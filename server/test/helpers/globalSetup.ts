@@ -0,0 +1,37 @@
+import type { TestProject } from 'vitest/node';
+import { MongoMemoryServer } from 'mongodb-memory-server-core';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    mongoUri: string;
+  }
+}
+
+let memoryServer: MongoMemoryServer | null = null;
+
+/**
+ * Give every suite a MongoDB: the one named by MONGODB_TEST_URI, or else a
+ * throwaway in-memory server. Failing to start one fails the run.
+ */
+export async function setup(project: TestProject): Promise<void> {
+  const configured = process.env.MONGODB_TEST_URI;
+  if (configured) {
+    project.provide('mongoUri', configured);
+    return;
+  }
+
+  try {
+    memoryServer = await MongoMemoryServer.create();
+  } catch (error) {
+    throw new Error(
+      `[Test] Could not start an in-memory MongoDB (${(error as Error).message}); ` +
+        'set MONGODB_TEST_URI to run against an existing server'
+    );
+  }
+  project.provide('mongoUri', memoryServer.getUri('plugdj-test'));
+}
+
+export async function teardown(): Promise<void> {
+  await memoryServer?.stop();
+  memoryServer = null;
+}
@@ -0,0 +1,90 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { initSocket } from '../../src/socket';
+import { createLocalAdapter } from '../../src/socket/localAdapter';
+import { signToken } from '../../src/middleware/auth';
+import { User, IUser } from '../../src/models/User';
+import { uniqueSuffix } from './db';
+
+export interface TestServer {
+  io: Server;
+  url: string;
+  close(): Promise<void>;
+}
+
+/** The real socket handlers on a random port, behind the in-process cluster adapter. */
+export async function startTestServer(): Promise<TestServer> {
+  const httpServer = createServer();
+  const io = initSocket(httpServer);
+  io.adapter(createLocalAdapter(new EventEmitter()));
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    io,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => io.close(() => resolve())),
+  };
+}
+
+export async function createTestUser(name: string): Promise<IUser> {
+  return User.create({ username: `${name}-${uniqueSuffix()}` });
+}
+
+/** A connected client authenticated as `user`. */
+export function connectAs(server: TestServer, user: IUser): Promise<ClientSocket> {
+  const token = signToken({ userId: user._id.toString(), username: user.username, isAnonymous: false });
+  const socket = connect(server.url, { auth: { token }, transports: ['websocket'], forceNew: true });
+  return new Promise((resolve, reject) => {
+    socket.once('connect', () => resolve(socket));
+    socket.once('connect_error', reject);
+  });
+}
+
+/** The next `event` the client receives that passes `filter`. */
+export function nextEvent<T = any>(
+  socket: ClientSocket,
+  event: string,
+  filter: (payload: T) => boolean = () => true,
+  timeoutMs = 5000
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, listener);
+      reject(new Error(`Timed out waiting for "${event}"`));
+    }, timeoutMs);
+    const listener = (payload: T) => {
+      if (!filter(payload)) return;
+      clearTimeout(timer);
+      socket.off(event, listener);
+      resolve(payload);
+    };
+    socket.on(event, listener);
+  });
+}
+
+/** Join a room and wait for its state. */
+export async function joinRoom(socket: ClientSocket, roomSlug: string): Promise<any> {
+  const state = nextEvent(socket, 'roomState');
+  socket.emit('joinRoom', { roomSlug });
+  return state;
+}
+
+/** Poll `check` until it returns something truthy. */
+export async function waitFor<T>(check: () => Promise<T | null | undefined | false>, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await delay(50);
+  }
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
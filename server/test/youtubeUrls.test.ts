@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalMediaId, isValidVideoUrl, normalizeUrl } from '../src/utils/videoValidator';
+import { parseTimestamp, extractClipRange } from '../src/media';
+
+const ID = 'dQw4w9WgXcQ';
+const WATCH = `https://www.youtube.com/watch?v=${ID}`;
+
+// Every way of linking one video normalizes to the same watch URL and id
+const NORMALIZES: [string, string, string][] = [
+  ['watch page', `https://www.youtube.com/watch?v=${ID}`, WATCH],
+  ['no scheme', `youtube.com/watch?v=${ID}`, WATCH],
+  ['plain http', `http://youtube.com/watch?v=${ID}`, WATCH],
+  ['short link', `https://youtu.be/${ID}`, WATCH],
+  ['short link with share id', `https://youtu.be/${ID}?si=AbCdEfGh12345`, WATCH],
+  ['Shorts', `https://www.youtube.com/shorts/${ID}`, WATCH],
+  ['Shorts with share feature', `https://youtube.com/shorts/${ID}?feature=share`, WATCH],
+  ['live page', `https://www.youtube.com/live/${ID}`, WATCH],
+  ['YouTube Music', `https://music.youtube.com/watch?v=${ID}`, WATCH],
+  ['mobile site', `https://m.youtube.com/watch?v=${ID}`, WATCH],
+  ['v= not first', `https://www.youtube.com/watch?feature=share&v=${ID}`, WATCH],
+  ['playlist parameters', `https://www.youtube.com/watch?v=${ID}&list=PL123&index=4`, WATCH],
+  ['tracking parameters', `https://www.youtube.com/watch?v=${ID}&si=xyz&feature=youtu.be`, WATCH],
+  ['embed', `https://www.youtube.com/embed/${ID}`, WATCH],
+  ['privacy-enhanced embed', `https://www.youtube-nocookie.com/embed/${ID}`, WATCH],
+  ['t= in seconds', `https://youtu.be/${ID}?t=42`, `${WATCH}&t=42s`],
+  ['t= with units', `https://www.youtube.com/watch?v=${ID}&t=1m30s`, `${WATCH}&t=90s`],
+  ['t= before v=', `https://www.youtube.com/watch?t=75&v=${ID}`, `${WATCH}&t=75s`],
+  ['start=', `https://www.youtube.com/embed/${ID}?start=15`, `${WATCH}&t=15s`],
+  ['#t= fragment', `https://www.youtube.com/watch?v=${ID}#t=1:05`, `${WATCH}&t=65s`],
+  ['t=0 dropped', `https://youtu.be/${ID}?t=0`, WATCH],
+  ['fractional t= rounded down', `https://youtu.be/${ID}?t=12.7`, `${WATCH}&t=12s`],
+];
+
+// Not a single YouTube video: left as submitted
+const REJECTS: [string, string][] = [
+  ['id too short', 'https://youtu.be/dQw4w9WgXc'],
+  ['id too long', `https://youtu.be/${ID}X`],
+  ['channel page', 'https://www.youtube.com/@someone'],
+  ['playlist only', 'https://www.youtube.com/playlist?list=PL123'],
+  ['lookalike host', `https://notyoutube.com/watch?v=${ID}`],
+];
+
+describe('YouTube URL normalization', () => {
+  it.each(NORMALIZES)('%s', (_name, url, expected) => {
+    expect(isValidVideoUrl(url)).toBe(true);
+    expect(normalizeUrl(url)).toBe(expected);
+    expect(canonicalMediaId(url)).toBe(`youtube:${ID}`);
+  });
+
+  it('trims surrounding whitespace', () => {
+    expect(normalizeUrl(`  https://youtu.be/${ID}\n`)).toBe(WATCH);
+  });
+
+  it.each(REJECTS)('%s', (_name, url) => {
+    expect(canonicalMediaId(url)).not.toBe(`youtube:${ID}`);
+    expect(normalizeUrl(url)).toBe(url);
+  });
+});
+
+describe('parseTimestamp', () => {
+  it.each([
+    ['90', 90],
+    ['12.5', 12.5],
+    ['90s', 90],
+    ['1m30s', 90],
+    ['1h2m3s', 3723],
+    ['2m', 120],
+    ['1:30', 90],
+    ['1:02:03', 3723],
+    [' 45 ', 45],
+  ] as const)('%s is %d seconds', (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds);
+  });
+
+  it.each(['', 'abc', '1:2:3:4', '-5', '1m30'])('rejects %j', (value) => {
+    expect(parseTimestamp(value)).toBeNull();
+  });
+});
+
+describe('extractClipRange', () => {
+  it.each([
+    ['no offsets', WATCH, { startAt: 0, endAt: null }],
+    ['t= and end=', `${WATCH}&t=30&end=1m`, { startAt: 30, endAt: 60 }],
+    ['start= and end=', `https://www.youtube.com/embed/${ID}?start=5&end=20`, { startAt: 5, endAt: 20 }],
+    ['fragment', 'https://soundcloud.com/artist/track#t=1:30', { startAt: 90, endAt: null }],
+    ['unparseable t=', `${WATCH}&t=soon`, { startAt: 0, endAt: null }],
+    ['not a URL', 'http://[::1', { startAt: 0, endAt: null }],
+  ] as const)('%s', (_name, url, range) => {
+    expect(extractClipRange(url)).toEqual(range);
+  });
+});
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    env: { NODE_ENV: 'test' },
+    // MongoDB for the socket suites: MONGODB_TEST_URI, or an in-memory server
+    globalSetup: ['test/helpers/globalSetup.ts'],
+    // Socket suites share one test database
+    fileParallelism: false,
+    testTimeout: 15000,
+    hookTimeout: 15000,
+  },
+});